@@ -0,0 +1,57 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { handleField } from "~/lib/validation";
+
+/** Strings come from the server page: there is no I18nProvider above not-found */
+export type HandleSearchLabels = { label: string; submit: string; invalid: string };
+
+export default function HandleSearch({ labels }: { labels: HandleSearchLabels }) {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    const checked = handleField(query);
+    if ("error" in checked) {
+      setError(labels.invalid);
+      return;
+    }
+    setError(null);
+    router.push(`/@${checked.value}`);
+  };
+
+  return (
+    <form onSubmit={submit} className="flex flex-col gap-2 text-sm" role="search">
+      <div className="flex items-stretch gap-2">
+        <label htmlFor="handle-search" className="sr-only">{labels.label}</label>
+        <input
+          id="handle-search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="@handle"
+          autoComplete="off"
+          autoCapitalize="none"
+          spellCheck={false}
+          aria-invalid={!!error}
+          aria-describedby={error ? "handle-search-error" : undefined}
+          className="flex-grow bg-background border border-border text-foreground px-4 py-2 rounded-[12px]"
+        />
+        <button
+          type="submit"
+          className="bg-[#009e4f] text-white dark:text-black font-semibold px-4 py-2 rounded-[12px]"
+        >
+          {labels.submit}
+        </button>
+      </div>
+      {error && (
+        <p id="handle-search-error" className="text-red-600 text-xs" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
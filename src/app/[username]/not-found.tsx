@@ -0,0 +1,50 @@
+// src/app/[username]/not-found.tsx
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import Link from "next/link";
+
+import { createTranslator, detectLocale } from "~/lib/i18n";
+
+import HandleSearch from "./handle-search";
+
+/** not-found gets no searchParams, so only Accept-Language picks the language */
+async function translator() {
+  const locale = detectLocale({ acceptLanguage: (await headers()).get("accept-language") });
+  return createTranslator(locale);
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await translator();
+  return {
+    title: t("notFound.title"),
+    robots: { index: false, follow: false },
+  };
+}
+
+/** Rendered when fetchProfileState() reports an unknown handle */
+export default async function PaylinkNotFound() {
+  const t = await translator();
+
+  return (
+    <main className="mx-auto max-w-md w-full flex-1 flex flex-col gap-6 px-4 py-16">
+      <div className="flex flex-col gap-2 text-center">
+        <h1 className="text-2xl font-bold">{t("notFound.heading")}</h1>
+        <p className="text-sm text-muted-foreground">{t("notFound.hint")}</p>
+      </div>
+
+      <HandleSearch
+        labels={{
+          label: t("notFound.searchLabel"),
+          submit: t("notFound.searchSubmit"),
+          invalid: t("notFound.searchInvalid"),
+        }}
+      />
+
+      <p className="text-center text-xs text-muted-foreground">
+        <Link href="/" className="hover:text-foreground">
+          {t("notFound.back")}
+        </Link>
+      </p>
+    </main>
+  );
+}
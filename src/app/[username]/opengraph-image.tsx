@@ -1,6 +1,13 @@
 // src/app/[username]/opengraph-image.tsx
 import { ImageResponse } from "next/og";
 
+import { allowedAvatarUrl } from "~/lib/avatar-host";
+import { currencyForCountry, formatMoney } from "~/lib/currency";
+import { createTranslator, detectLocale, intlLocale } from "~/lib/i18n";
+import { type OgTheme, resolveOgTheme } from "~/lib/og-theme";
+import { type SignedTerms, parseSignedTerms, verifyPaylinkTerms } from "~/lib/paylink-signing";
+import { classifyProfile, fetchUserPublic, normalizeHandleParam, toUserProfile } from "~/lib/profile";
+
 export const runtime = "edge";
 export const contentType = "image/png";
 
@@ -10,30 +17,67 @@ type Props = {
 };
 
 /* helpers */
-function safeDecode(s: string) { try { return decodeURIComponent(s); } catch { return s; } }
-function normalizeHandleParam(input: string) {
-  let s = safeDecode(input || "").trim();
-  s = s.replace(/^@/i, "").replace(/^%40/i, "");
-  return s.toLowerCase().replace(/[^a-z0-9._-]/g, "");
-}
-function fmtUGX(n: number) {
-  return new Intl.NumberFormat("en-UG", { maximumFractionDigits: 0 }).format(n);
-}
 function pickParam(sp: Props["searchParams"], key: string): string | undefined {
   if (!sp) return undefined;
   if (typeof (sp as URLSearchParams).get === "function") return (sp as URLSearchParams).get(key) ?? undefined;
   const v = (sp as Record<string, string | string[] | undefined>)[key];
   return Array.isArray(v) ? v[0] : v;
 }
+/** Signed terms that verify; "rejected" when a signature is present but does not */
+async function getSignedTerms(
+  handle: string,
+  sp: Props["searchParams"]
+): Promise<SignedTerms | "rejected" | null> {
+  if (!sp) return null;
+  const terms = parseSignedTerms(sp);
+  if (!terms) return null;
+  if (terms === "malformed") return "rejected";
+  const status = await verifyPaylinkTerms(handle, terms).catch(() => "invalid" as const);
+  return status === "valid" ? terms : "rejected";
+}
 function getAmount(sp: Props["searchParams"]): number | null {
   const raw = pickParam(sp, "a") ?? pickParam(sp, "amount");
   if (!raw) return null;
-  const digits = String(raw).replace(/[^\d]/g, "");
+  const digits = String(raw).replace(/[^\d.]/g, "");
   if (!digits) return null;
   const n = Number(digits);
   return Number.isFinite(n) && n > 0 ? n : null;
 }
 
+/**
+ * Profile logo as a data URL. Satori fails the whole image on an unreachable
+ * or unsupported <img>, so anything but a small PNG/JPEG/GIF falls back to the initial.
+ * Only allowlisted hosts are fetched (see lib/avatar-host.ts), and redirects
+ * are refused so one can't lead elsewhere.
+ */
+async function loadAvatar(logo?: string | null): Promise<string | null> {
+  const url = allowedAvatarUrl(logo);
+  if (!url) return null;
+  try {
+    const res = await fetch(url, { redirect: "error", signal: AbortSignal.timeout(2500) });
+    const type = res.headers.get("content-type")?.split(";")[0].trim() ?? "";
+    if (!res.ok || !/^image\/(png|jpeg|gif)$/.test(type)) return null;
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    if (bytes.length > 1_000_000) return null;
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${type};base64,${btoa(binary)}`;
+  } catch {
+    return null;
+  }
+}
+
+function VerifiedBadge({ theme }: { theme: OgTheme }) {
+  return (
+    <svg width="40" height="40" viewBox="0 0 24 24">
+      <circle cx="12" cy="12" r="11" fill={theme.badge} />
+      <path d="M7 12.5l3.2 3.2L17 9" fill="none" stroke={theme.badgeCheck} strokeWidth="2.6" strokeLinecap="round" strokeLinejoin="round" />
+    </svg>
+  );
+}
+
 /* optional embedded heavy font (put file at src/app/[username]/_og-assets/Inter-Black.ttf) */
 async function loadInterBlack(): Promise<ArrayBuffer | null> {
   try {
@@ -48,9 +92,31 @@ async function loadInterBlack(): Promise<ArrayBuffer | null> {
 
 export default async function OpengraphImage({ params, searchParams }: Props) {
   const handle = normalizeHandleParam(params.username);
-  const amount = getAmount(searchParams);
-  const headline = amount ? `${fmtUGX(amount)} UGX` : `Pay @${handle || "user"}`;
-  const fontSize = amount ? 176 : 148;
+  const [profile, signed] = await Promise.all([
+    fetchUserPublic(handle),
+    getSignedTerms(handle, searchParams),
+  ]);
+  // a tampered signed link previews as a plain one, without its amount
+  const amount = signed === "rejected" ? null : signed?.amount ?? getAmount(searchParams);
+  const terms = signed && signed !== "rejected" ? signed : undefined;
+
+  const locale = detectLocale({ lang: pickParam(searchParams, "lang") });
+  const t = createTranslator(locale);
+  const theme = resolveOgTheme(pickParam(searchParams, "theme"));
+
+  // Unknown handles (or the API being down) still get the plain "Pay @handle" card
+  const name = profile?.name?.trim();
+  const state = classifyProfile(handle, profile);
+  // same rule as the page: complete, not suspended, and verified by the API
+  const verified = "profile" in state && !!toUserProfile(state).verified;
+  const currency = profile?.currency ?? currencyForCountry(profile?.country);
+  const headline = amount
+    ? formatMoney(amount, currency, intlLocale(locale, profile?.country))
+    : name
+    ? t("og.payName", { name })
+    : t("og.pay", { handle: handle || "user" });
+  const fontSize = amount ? 150 : headline.length > 18 ? 88 : 120;
+  const avatar = name ? await loadAvatar(profile?.logo) : null;
 
   const interBlack = await loadInterBlack();
   const fonts = interBlack
@@ -64,25 +130,58 @@ export default async function OpengraphImage({ params, searchParams }: Props) {
           width: 1200,
           height: 630,
           display: "flex",
+          flexDirection: "column",
           alignItems: "center",
           justifyContent: "center",
-          background: "#009e4f", // ← brand green (solid)
+          background: theme.background,
           position: "relative",
-          color: "#fff",
+          color: theme.foreground,
           fontFamily: interBlack
             ? 'InterBlack, "Inter", ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Arial'
             : 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Arial',
         }}
       >
-        {/* soft highlight for depth (keeps brand color but adds subtle light) */}
-        <div
-          style={{
-            position: "absolute",
-            inset: 0,
-            background:
-              "radial-gradient(780px 320px at 50% 58%, rgba(255,255,255,0.14), transparent 60%)",
-          }}
-        />
+        {/* soft highlight for depth */}
+        <div style={{ position: "absolute", inset: 0, background: theme.glow }} />
+
+        {/* who is being paid */}
+        {name ? (
+          <div style={{ zIndex: 1, display: "flex", alignItems: "center", gap: 20, marginBottom: 28 }}>
+            {avatar ? (
+              <img
+                src={avatar}
+                width={96}
+                height={96}
+                style={{ borderRadius: 999, border: `4px solid ${theme.avatarRing}`, objectFit: "cover" }}
+              />
+            ) : (
+              <div
+                style={{
+                  width: 96,
+                  height: 96,
+                  borderRadius: 999,
+                  border: `4px solid ${theme.avatarRing}`,
+                  background: theme.avatarFallback,
+                  color: "#ffffff",
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  fontSize: 44,
+                  fontWeight: 900,
+                }}
+              >
+                {name[0].toUpperCase()}
+              </div>
+            )}
+            <div style={{ display: "flex", flexDirection: "column" }}>
+              <div style={{ display: "flex", alignItems: "center", gap: 12, fontSize: 44, fontWeight: 800 }}>
+                {name}
+                {verified ? <VerifiedBadge theme={theme} /> : null}
+              </div>
+              <div style={{ fontSize: 30, color: theme.muted }}>@{profile?.username || handle}</div>
+            </div>
+          </div>
+        ) : null}
 
         {/* headline */}
         <div
@@ -94,12 +193,33 @@ export default async function OpengraphImage({ params, searchParams }: Props) {
             lineHeight: 1.06,
             textAlign: "center",
             padding: "0 56px",
-            textShadow: "0 6px 18px rgba(0,0,0,0.35), 0 2px 6px rgba(0,0,0,0.25)",
-        }}
+            textShadow: theme.textShadow,
+          }}
         >
           {headline}
         </div>
 
+        {terms?.invoice || terms?.memo ? (
+          <div
+            style={{
+              zIndex: 1,
+              marginTop: 18,
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              gap: 6,
+              color: theme.muted,
+              padding: "0 80px",
+              textAlign: "center",
+            }}
+          >
+            {terms.invoice ? (
+              <div style={{ fontSize: 44, fontWeight: 800 }}>{t("og.invoice", { number: terms.invoice })}</div>
+            ) : null}
+            {terms.memo ? <div style={{ fontSize: 32 }}>{terms.memo}</div> : null}
+          </div>
+        ) : null}
+
         {/* tiny brand footer */}
         <div
           style={{
@@ -110,7 +230,7 @@ export default async function OpengraphImage({ params, searchParams }: Props) {
             alignItems: "center",
             justifyContent: "center",
             gap: 10,
-            color: "rgba(255,255,255,0.95)",
+            color: theme.muted,
             fontSize: 28,
             fontWeight: 800,
             textTransform: "uppercase",
@@ -122,8 +242,7 @@ export default async function OpengraphImage({ params, searchParams }: Props) {
               width: 10,
               height: 10,
               borderRadius: 999,
-              background: "#ffffff",
-              boxShadow: "0 0 10px rgba(255,255,255,0.9)",
+              background: theme.foreground,
             }}
           />
           Guto Paylink
@@ -1,6 +1,25 @@
 // src/app/[username]/page.tsx
 import type { Metadata } from "next";
-import LandingPage, { type UserProfile } from "../page.client";
+import { headers } from "next/headers";
+import { notFound, permanentRedirect } from "next/navigation";
+import LandingPage from "../page.client";
+import { currencyForCountry, formatMoney, getCurrency } from "~/lib/currency";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  type Locale,
+  createTranslator,
+  detectLocale,
+  intlLocale,
+  ogLocale,
+} from "~/lib/i18n";
+import { isOgTheme } from "~/lib/og-theme";
+import { type PaylinkTermsState, parseSignedTerms, signedTermsParams } from "~/lib/paylink-signing";
+import { checkPaylinkTerms } from "~/lib/paylink-terms";
+import { canonicalHandlePath } from "~/lib/handle";
+import { siteUrl } from "~/lib/paylink";
+import { fetchProfileState, normalizeHandleParam, toUserProfile } from "~/lib/profile";
+import { getSession } from "~/lib/session";
 
 export const dynamic = "force-dynamic";
 
@@ -25,110 +44,105 @@ async function resolveSearchParams(
   return isPromise(sp) ? await sp : sp;
 }
 
-function safeDecode(input: string): string {
-  try {
-    return decodeURIComponent(input);
-  } catch {
-    return input;
-  }
-}
-
-/** "%40sonde51" -> "@sonde51" -> "sonde51" (only a-z0-9._-) */
-function normalizeHandleParam(input: string) {
-  let s = safeDecode(input).trim();
-  s = s.replace(/^@/i, "").replace(/^%40/i, "");
-  return s.toLowerCase().replace(/[^a-z0-9._-]/g, "");
-}
-
-/** "marigo65" -> "Marigo65", "john.doe" -> "John Doe" */
-function displayNameFromHandle(handle: string) {
-  const spaced = handle.replace(/[_.-]+/g, " ");
-  return spaced.replace(/\b\w/g, (c) => c.toUpperCase()) || "User";
-}
-
-/** Parse ?a= amount; accepts "125000" or "125,000" */
+/** Parse ?a= amount; accepts "125000", "125,000" or "1250.50" */
 function parseAmount(sp?: SearchParams): number | undefined {
   if (!sp) return undefined;
   const raw = Array.isArray(sp.a) ? sp.a[0] : sp.a;
   if (!raw) return undefined;
-  const digits = String(raw).replace(/[^\d]/g, "");
+  const digits = String(raw).replace(/[^\d.]/g, "");
   if (!digits) return undefined;
   const n = Number(digits);
   return Number.isFinite(n) && n > 0 ? n : undefined;
 }
 
-async function fetchUserPublic(handle: string) {
-  const apiBase = process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL;
-  if (!apiBase || !handle) return null;
-
-  try {
-    const res = await fetch(`${apiBase}/api/profiles/by-username/${encodeURIComponent(handle)}`, {
-      cache: "no-store",
-    });
-    if (!res.ok) return null;
-    const json = await res.json().catch(() => null);
-    return json?.data ?? null;
-  } catch {
-    return null;
-  }
+/** ?lang= first, then the browser's Accept-Language */
+async function requestLocale(sp: SearchParams): Promise<Locale> {
+  const h = await headers();
+  return detectLocale({ lang: sp.lang, acceptLanguage: h.get("accept-language") });
 }
 
-function getSite() {
-  const env =
-    process.env.NEXT_PUBLIC_SITE_URL ||
-    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "");
-  return env.replace(/\/+$/, "");
+/** Signed terms (?a=&inv=&memo=&exp=&once=&sig=); undefined on plain paylinks */
+async function readTerms(handle: string, sp: SearchParams): Promise<PaylinkTermsState | undefined> {
+  const terms = parseSignedTerms(sp);
+  if (!terms) return undefined;
+  if (terms === "malformed") return { status: "invalid", terms: { sig: "" } };
+  return checkPaylinkTerms(handle, terms);
 }
 
-function absoluteUrl(path: string) {
-  const base = getSite() || "http://localhost:3000"; // local fallback
-  return `${base}${path.startsWith("/") ? "" : "/"}${path}`;
+/** The current query string, kept across redirects */
+function queryString(sp: SearchParams) {
+  const q = new URLSearchParams();
+  for (const [key, value] of Object.entries(sp)) {
+    for (const v of Array.isArray(value) ? value : value === undefined ? [] : [value]) q.append(key, v);
+  }
+  return q.toString() ? `?${q}` : "";
 }
 
-
 export async function generateMetadata(props: PageProps): Promise<Metadata> {
   const { username } = await resolveParams(props.params);
   const sp = await resolveSearchParams(props.searchParams);
 
   const handle = normalizeHandleParam(username);
-  const apiUser = await fetchUserPublic(handle);
+  const state = await fetchProfileState(handle);
+  if (state.status === "not-found") {
+    return { title: "Paylink not found", robots: { index: false, follow: false } };
+  }
+  if (state.status === "moved") {
+    return { alternates: { canonical: siteUrl(canonicalHandlePath(state.to)) } };
+  }
 
-  const name = apiUser?.name || displayNameFromHandle(handle);
+  const apiUser = state.profile;
+  const name = toUserProfile(state).name;
+  const currency = getCurrency(apiUser?.currency ?? currencyForCountry(apiUser?.country)).code;
+  const locale = await requestLocale(sp);
+  const t = createTranslator(locale);
 
-  // read ?a= and keep digits only so 125,000 works
-  const raw = Array.isArray(sp.a) ? sp.a[0] : sp.a;
-  const digits = raw ? String(raw).replace(/[^\d]/g, "") : "";
-  const amount = digits ? Number(digits) : undefined;
-  const prettyAmount =
-    amount && Number.isFinite(amount) && amount > 0
-      ? new Intl.NumberFormat("en-UG", { maximumFractionDigits: 0 }).format(amount)
-      : undefined;
-
-  const title = prettyAmount
-    ? `Pay ${name} • UGX ${prettyAmount}`
-    : `Pay ${name} (@${handle})`;
-  const description = prettyAmount
-    ? `Send UGX ${prettyAmount} securely to ${name} on Guto Paylink.`
-    : `Send secure payments to ${name} on Guto Paylink.`;
+  const paylinkTerms = await readTerms(handle, sp);
+  const invoice = paylinkTerms?.status === "valid" ? paylinkTerms.terms.invoice : undefined;
 
-const canonicalPath = `/@${handle}`;
-const imagePath = `/${encodeURIComponent("@"+handle)}/opengraph-image${prettyAmount ? `?a=${digits}` : ""}`;
+  // A tampered signed link is previewed without its amount
+  const amount = paylinkTerms?.status === "invalid" ? undefined : parseAmount(sp);
+  const prettyAmount = amount ? formatMoney(amount, currency, intlLocale(locale, apiUser?.country)) : undefined;
 
-const canonicalAbs = absoluteUrl(canonicalPath);
-const imageAbs = absoluteUrl(imagePath);
+  const title = invoice
+    ? t("meta.invoiceTitle", { number: invoice, name })
+    : prettyAmount
+    ? t("meta.titleAmount", { name, amount: prettyAmount })
+    : t("meta.title", { name, handle });
+  const description = prettyAmount
+    ? t("meta.descriptionAmount", { name, amount: prettyAmount })
+    : t("meta.description", { name });
+
+const canonicalPath = canonicalHandlePath(handle);
+const imageParams = new URLSearchParams();
+if (amount) imageParams.set("a", String(amount));
+if (locale !== DEFAULT_LOCALE) imageParams.set("lang", locale);
+if (isOgTheme(sp.theme)) imageParams.set("theme", sp.theme);
+if (paylinkTerms?.status === "valid") {
+  for (const [key, value] of Object.entries(signedTermsParams(paylinkTerms.terms))) {
+    imageParams.set(key, value);
+  }
+}
+const imageQuery = imageParams.toString() ? `?${imageParams}` : "";
+const imagePath = `/${encodeURIComponent("@"+handle)}/opengraph-image${imageQuery}`;
+
+const canonicalAbs = siteUrl(canonicalPath);
+const imageAbs = siteUrl(imagePath);
 
 return {
   title,
   description,
   alternates: { canonical: canonicalAbs }, // absolute
-  robots: { index: true, follow: true },
+  // only complete profiles belong in search results
+  robots: state.status === "found" ? { index: true, follow: true } : { index: false, follow: false },
   openGraph: {
     title,
     description,
     url: canonicalAbs,                      // absolute
     siteName: "Guto",
     type: "profile",
-    locale: "en_US",
+    locale: ogLocale(locale, apiUser?.country),
+    alternateLocale: LOCALES.filter((l) => l !== locale).map((l) => ogLocale(l, apiUser?.country)),
     images: [{
       url: imageAbs,                        // absolute
       secureUrl: imageAbs,                  // absolute HTTPS
@@ -153,44 +167,24 @@ export default async function Page(props: PageProps) {
   const search = await resolveSearchParams(props.searchParams);
 
   const safeHandle = normalizeHandleParam(params.username);
-  const apiBase = process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL;
-
-  // Fallback user if API missing/404/error
-  let user: UserProfile = {
-    gutokey: "zQ3shTSb9XUPVBUWfbpnuWRfeemNhjVtCFt62yz8SgxyoGNze",
-    phone: "",
-    name: displayNameFromHandle(safeHandle),
-    handle: `@${safeHandle || "user"}`,
-    avatarUrl: undefined,
-    verified: false,
-  };
-
-  if (apiBase && safeHandle) {
-    try {
-      const res = await fetch(
-        `${apiBase}/api/profiles/by-username/${encodeURIComponent(safeHandle)}`,
-        { cache: "no-store" }
-      );
-      if (res.ok) {
-        const json = await res.json().catch(() => null);
-        const data = json?.data;
-        if (data && (data.username || data.name)) {
-          user = {
-            name: data.name || displayNameFromHandle(safeHandle),
-              phone: data.phone || null,
-              gutokey: data.gutokey || "not found",
-            handle: `@${data.username || safeHandle}`,
-            avatarUrl: data.logo || undefined,
-            verified: true, // adjust if you have a real flag
-          };
-        }
-      }
-      // Non-OK/404 -> keep fallback without throwing
-    } catch {
-      // Network/parse error -> keep fallback
-    }
-  }
+  const state = await fetchProfileState(safeHandle);
+  if (state.status === "not-found") notFound();
+  // Renamed users: old links keep working, search engines move to the new handle
+  if (state.status === "moved") permanentRedirect(canonicalHandlePath(state.to) + queryString(search));
+  const user = toUserProfile(state);
 
   const amount = parseAmount(search);
-  return <LandingPage user={user} amount={amount} />;
+  const locale = await requestLocale(search);
+  const paylinkTerms = await readTerms(safeHandle, search);
+  // The recipient viewing their own page can mint signed links from Copy
+  const isOwner = !!safeHandle && (await getSession())?.handle === safeHandle;
+  return (
+    <LandingPage
+      user={user}
+      amount={amount}
+      locale={locale}
+      paylinkTerms={paylinkTerms}
+      isOwner={isOwner}
+    />
+  );
 }
@@ -0,0 +1,157 @@
+// src/app/[username]/poster/page.tsx
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound, permanentRedirect } from "next/navigation";
+
+import { currencyForCountry, formatMoney, getCurrency } from "~/lib/currency";
+import { createTranslator, detectLocale, intlLocale } from "~/lib/i18n";
+import { canonicalHandlePath } from "~/lib/handle";
+import { buildPaylink } from "~/lib/paylink";
+import { parseSignedTerms, signedTermsParams, verifyPaylinkTerms } from "~/lib/paylink-signing";
+import { fetchProfileState, normalizeHandleParam, toUserProfile } from "~/lib/profile";
+import { qrSvg } from "~/lib/qr";
+import PrintButton from "./print-button";
+
+export const dynamic = "force-dynamic";
+
+type Params = { username: string };
+type SearchParams = Record<string, string | string[] | undefined>;
+type PageProps = {
+  params: Promise<Params>;
+  searchParams?: Promise<SearchParams>;
+};
+
+const PAPER = {
+  a4: { width: "210mm", height: "297mm", qr: "120mm", name: "16mm", text: "6mm" },
+  a5: { width: "148mm", height: "210mm", qr: "85mm", name: "11mm", text: "4.2mm" },
+} as const;
+
+/* ---------------- helpers ---------------- */
+function pick(sp: SearchParams, key: string): string | undefined {
+  const v = sp[key];
+  return Array.isArray(v) ? v[0] : v;
+}
+
+function parseAmount(sp: SearchParams): number | undefined {
+  const digits = pick(sp, "a")?.replace(/[^\d.]/g, "");
+  const n = digits ? Number(digits) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+export const metadata: Metadata = {
+  title: "Paylink poster",
+  robots: { index: false, follow: false },
+};
+
+/* ---------------- page render ---------------- */
+/**
+ * Printable counter poster: /@handle/poster?size=a4|a5&a=<amount>&lang=
+ * The QR encodes the same paylink Hero shares, so it opens the payment form;
+ * signed terms (`sig` and friends) are kept when they verify.
+ */
+export default async function PosterPage(props: PageProps) {
+  const { username } = await props.params;
+  const sp = (await props.searchParams) ?? {};
+
+  const handle = normalizeHandleParam(username);
+  // Only paylinks that take payments get a poster
+  const state = await fetchProfileState(handle);
+  if (state.status === "moved") {
+    const query = new URLSearchParams();
+    for (const key of Object.keys(sp)) {
+      const value = pick(sp, key);
+      if (value !== undefined) query.set(key, value);
+    }
+    permanentRedirect(canonicalHandlePath(state.to, "/poster") + (query.toString() ? `?${query}` : ""));
+  }
+  if (state.status !== "found") notFound();
+  const { profile } = state;
+  const user = toUserProfile(state);
+
+  const locale = detectLocale({
+    lang: pick(sp, "lang"),
+    acceptLanguage: (await headers()).get("accept-language"),
+  });
+  const t = createTranslator(locale);
+  const paper = PAPER[pick(sp, "size") === "a5" ? "a5" : "a4"];
+
+  const terms = parseSignedTerms(sp);
+  const signed =
+    terms && terms !== "malformed" &&
+    (await verifyPaylinkTerms(handle, terms).catch(() => "invalid")) === "valid"
+      ? terms
+      : undefined;
+  const amount = signed ? signed.amount : parseAmount(sp);
+  const currency = getCurrency(profile.currency ?? currencyForCountry(profile.country)).code;
+  const paylink = buildPaylink(profile.username || handle, amount, signed && signedTermsParams(signed));
+  const displayLink = paylink.replace(/^https?:\/\//, "");
+  const qr = qrSvg(paylink, { ecl: "Q", size: 1024 });
+
+  return (
+    <main className="flex-1 flex flex-col items-center gap-6 py-8 print:py-0 bg-muted/40 print:bg-white">
+      <style>{`
+        @page { size: ${paper.width} ${paper.height}; margin: 0; }
+        @media print {
+          header, .no-print { display: none !important; }
+          body { background: #fff !important; }
+        }
+      `}</style>
+
+      <PrintButton label={t("poster.print")} />
+
+      <article
+        className="bg-white text-[#111827] shadow-lg print:shadow-none flex flex-col items-center justify-between"
+        style={{ width: paper.width, height: paper.height, padding: "12mm" }}
+      >
+        <div className="flex flex-col items-center gap-[4mm] text-center">
+          {profile.logo ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={profile.logo}
+              alt=""
+              className="rounded-full object-cover"
+              style={{ width: "28mm", height: "28mm" }}
+            />
+          ) : (
+            <div
+              className="rounded-full bg-[#009e4f] text-white font-bold flex items-center justify-center"
+              style={{ width: "28mm", height: "28mm", fontSize: "12mm" }}
+            >
+              {user.name[0]?.toUpperCase()}
+            </div>
+          )}
+          <h1 className="font-extrabold leading-tight" style={{ fontSize: paper.name }}>
+            {user.name}
+          </h1>
+          <p className="font-semibold text-[#009e4f]" style={{ fontSize: paper.text }}>
+            @{profile.username || handle}
+          </p>
+        </div>
+
+        <div className="flex flex-col items-center gap-[4mm]">
+          <p className="font-extrabold uppercase tracking-wide" style={{ fontSize: paper.text }}>
+            {t("poster.scanToPay")}
+          </p>
+          <div
+            className="[&>svg]:w-full [&>svg]:h-auto"
+            style={{ width: paper.qr }}
+            // qrSvg output contains no user-controlled markup
+            dangerouslySetInnerHTML={{ __html: qr }}
+          />
+          {amount && (
+            <p className="font-extrabold" style={{ fontSize: paper.text }}>
+              {t("poster.amount", { amount: formatMoney(amount, currency, intlLocale(locale, profile.country)) })}
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-col items-center gap-[2mm] text-center text-[#374151]">
+          <p style={{ fontSize: `calc(${paper.text} * 0.8)` }}>{t("poster.orVisit", { url: displayLink })}</p>
+          <p className="font-bold text-[#009e4f]" style={{ fontSize: `calc(${paper.text} * 0.7)` }}>
+            Guto Paylink
+          </p>
+        </div>
+      </article>
+    </main>
+  );
+}
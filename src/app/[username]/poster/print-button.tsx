@@ -0,0 +1,13 @@
+"use client";
+
+export default function PrintButton({ label }: { label: string }) {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="no-print bg-[#009e4f] text-white dark:text-black font-semibold px-5 py-2 rounded-[12px]"
+    >
+      {label}
+    </button>
+  );
+}
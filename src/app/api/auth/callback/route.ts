@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, createSessionToken, redeemLoginToken } from "~/lib/session";
+import { nextPathField } from "~/lib/validation";
+
+/**
+ * Landing point of the emailed sign-in link:
+ *   GET /api/auth/callback?token=…&next=/@shop
+ * Exchanges the one-time token for a session cookie and returns to `next`.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const token = url.searchParams.get("token") ?? "";
+
+  const session = await redeemLoginToken(token).catch((err) => {
+    console.error("❗ login token error:", err);
+    return null;
+  });
+  if (!session) {
+    return NextResponse.redirect(new URL("/login?error=expired", url), { status: 303 });
+  }
+
+  const next = nextPathField(url.searchParams.get("next"));
+  const target = "value" in next ? next.value : `/@${session.handle}`;
+
+  const res = NextResponse.redirect(new URL(target, url), { status: 303 });
+  res.cookies.set(SESSION_COOKIE, await createSessionToken(session.handle), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return res;
+}
@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import LoginEmail from "~/emails/login";
+import { parseBody } from "~/lib/api";
+import { sendMail } from "~/lib/mailer";
+import { buildLoginUrl } from "~/lib/paylink";
+import { fetchUserPublic } from "~/lib/profile";
+import { createLoginToken } from "~/lib/session";
+import { loginSchema } from "~/lib/validation";
+
+/**
+ * Emails a one-time sign-in link to the address on the handle's profile.
+ * The response is the same whether or not the handle exists or has an email,
+ * so the endpoint cannot be used to probe for accounts; mail failures are
+ * only logged. The links carry live tokens, which is why the mailer only
+ * falls back to its on-disk outbox outside production.
+ */
+export async function POST(request: NextRequest) {
+  const parsed = await parseBody(request, loginSchema);
+  if (parsed.response) return parsed.response;
+
+  const { handle, next } = parsed.data;
+  const ok = NextResponse.json(
+    { message: "If that paylink has an email on file, a sign-in link is on its way" },
+    { status: 200 }
+  );
+
+  const profile = await fetchUserPublic(handle, { fresh: true });
+  if (!profile?.email) return ok;
+
+  try {
+    const loginUrl = buildLoginUrl(await createLoginToken(handle), next ?? `/@${handle}`);
+    await sendMail({
+      to: profile.email,
+      subject: "Your Guto sign-in link",
+      react: LoginEmail({ name: profile.name || handle, handle, loginUrl }),
+    });
+  } catch (err) {
+    // Same answer as for handles without an email, or failures would reveal accounts
+    console.error("❗ login mail error:", err);
+  }
+  return ok;
+}
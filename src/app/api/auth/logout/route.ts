@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+
+import { SESSION_COOKIE } from "~/lib/session";
+
+/** Clears the session cookie; works as a plain <form method="post"> target */
+export async function POST(request: Request) {
+  const res = NextResponse.redirect(new URL("/login", request.url), { status: 303 });
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
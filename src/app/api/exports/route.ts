@@ -0,0 +1,79 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import {
+  isCalendarDay,
+  ledgerRange,
+  matchesFilter,
+  parseDashboardFilter,
+  timeZoneFor,
+} from "~/lib/dashboard";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  exportFilename,
+  exportStream,
+} from "~/lib/export";
+import { ledger } from "~/lib/ledger";
+import { fetchUserPublic, normalizeHandleParam } from "~/lib/profile";
+import { paidReceiptFromEntry } from "~/lib/receipt-view";
+import { getSession } from "~/lib/session";
+
+/**
+ * Paid transactions of the signed-in recipient's paylink, for bookkeeping.
+ *   GET /api/exports?format=csv|json|statement&from=2025-09-01&to=2025-09-30[&handle=shop]
+ * Days are the recipient's local days; the default range is the last 30.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Sign in to export payments" }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const handleParam = url.searchParams.get("handle");
+  if (handleParam && normalizeHandleParam(handleParam) !== session.handle) {
+    return NextResponse.json({ error: "You can only export your own paylink" }, { status: 403 });
+  }
+
+  const format = (url.searchParams.get("format") ?? "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: "Invalid request", fields: { format: `Use one of ${EXPORT_FORMATS.join(", ")}` } },
+      { status: 400 }
+    );
+  }
+
+  // A file is what gets kept, so a bad day is an error rather than the default range
+  const badDays: Record<string, string> = {};
+  for (const key of ["from", "to"]) {
+    const day = url.searchParams.get(key)?.trim();
+    if (day && !isCalendarDay(day)) badDays[key] = "Use a real day as YYYY-MM-DD";
+  }
+  if (Object.keys(badDays).length) {
+    return NextResponse.json({ error: "Invalid request", fields: badDays }, { status: 400 });
+  }
+
+  const { handle } = session;
+  const profile = await fetchUserPublic(handle);
+  const timeZone = timeZoneFor(profile?.country);
+  const filter = parseDashboardFilter(
+    { ...Object.fromEntries(url.searchParams), status: "paid" },
+    timeZone
+  );
+
+  async function* receipts() {
+    for await (const entry of ledger.iterateByHandle(handle, ledgerRange(filter))) {
+      if (matchesFilter(entry, filter, timeZone)) yield paidReceiptFromEntry(entry);
+    }
+  }
+
+  const filename = exportFilename(handle, format, filter.from, filter.to);
+  return new Response(exportStream(receipts(), format, { timeZone }), {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -1,46 +1,35 @@
-import { Resend } from "resend";
 import { type NextRequest, NextResponse } from "next/server";
-import { Redis } from "@upstash/redis";
-import { Ratelimit } from "@upstash/ratelimit";
 
 import WelcomeTemplate from "~/emails";
-
-
-const redis = new Redis({
-	url: process.env.UPSTASH_REDIS_REST_URL,
-	token: process.env.UPSTASH_REDIS_REST_TOKEN,
-});
-
-const ratelimit = new Ratelimit({
-	redis,
-	//  2 requests per minute from the same IP address in the a sliding window of  1 minute duration which
-	// means that the window slides forward every second and the rate limit is reset every minute for each IP address
-	limiter: Ratelimit.slidingWindow(2, "1 m"),
-});
+import { parseBody } from "~/lib/api";
+import { MailError, sendMail } from "~/lib/mailer";
+import { waitlistSchema } from "~/lib/validation";
 
 export async function POST(request: NextRequest) {
-	let ip: string;
-	const xForwardedForHeader = request.headers.get("x-forwarded-for");
-
-	if (xForwardedForHeader) {
-		ip = xForwardedForHeader.split(",")[0].trim();
-	} else {
-		ip = request.headers.get("x-real-ip")?.trim() ?? "127.0.0.1";
-	}
-
-	const result = await ratelimit.limit(ip);
-
-	if (!result.success) {
-		return NextResponse.json({ error: "Too many requests!" }, { status: 429 });
+	const parsed = await parseBody(request, waitlistSchema);
+	if (parsed.response) return parsed.response;
+
+	const { email, name } = parsed.data;
+
+	try {
+		const { id } = await sendMail({
+			to: email,
+			subject: "Welcome to Guto",
+			react: WelcomeTemplate({ userFirstname: name.split(" ")[0] }),
+		});
+
+		return NextResponse.json(
+			{ message: "Email sent successfully", id },
+			{ status: 200 },
+		);
+	} catch (error) {
+		console.error("❗ mail error:", error);
+		if (error instanceof MailError) {
+			return NextResponse.json(
+				{ error: "Email provider rejected the message", detail: error.message },
+				{ status: 502 },
+			);
+		}
+		return NextResponse.json({ error: "Failed to send email" }, { status: 502 });
 	}
-
-	const { email, name } = await request.json();
-
-
-
-
-	return NextResponse.json(
-		{ message: "Email sent successfully" },
-		{ status: 200 },
-	);
 }
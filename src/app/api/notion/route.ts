@@ -1,9 +1,14 @@
 import { NextResponse } from "next/server";
 
+import { parseBody } from "~/lib/api";
 import { notion } from "~/lib/notion";
+import { waitlistSchema } from "~/lib/validation";
 
 export async function POST(request: Request) {
-  const body = await request.json();
+  const parsed = await parseBody(request, waitlistSchema);
+  if (parsed.response) return parsed.response;
+
+  const body = parsed.data;
   try {
     const response = await notion.pages.create({
       parent: {
@@ -12,7 +17,7 @@ export async function POST(request: Request) {
       properties: {
         Email: {
           type: "email",
-          email: body?.email,
+          email: body.email,
         },
         Name: {
           type: "title",
@@ -20,7 +25,7 @@ export async function POST(request: Request) {
             {
               type: "text",
               text: {
-                content: body?.name,
+                content: body.name,
               },
             },
           ],
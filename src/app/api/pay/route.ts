@@ -0,0 +1,252 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { parseBody } from "~/lib/api";
+import { currencyForCountry, getCurrency } from "~/lib/currency";
+import { resolveProvider } from "~/lib/fees";
+import { gutoFetch } from "~/lib/guto";
+import {
+  carrierFromMsisdn,
+  countryOfMsisdn,
+  getNumberingPlan,
+  invalidMsisdnMessage,
+  normalizeMsisdn,
+} from "~/lib/msisdn";
+import { type LedgerEntry, ledger } from "~/lib/ledger";
+import { describeTerms } from "~/lib/paylink-signing";
+import { checkPaylinkTerms, claimSingleUse } from "~/lib/paylink-terms";
+import { classifyProfile, fetchUserPublic } from "~/lib/profile";
+import { assessPayment, passChallenge } from "~/lib/risk";
+import { amountField, paySchema } from "~/lib/validation";
+
+const IDEMPOTENCY_KEY = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Same response shape as a fresh submission, rebuilt from the ledger */
+function replay(entry: LedgerEntry) {
+  if (entry.state === "initiated") {
+    return NextResponse.json(
+      { error: "Payment already in progress", tx: entry.tx },
+      { status: 409 }
+    );
+  }
+
+  const accepted = !["failed", "error", "cancelled", "reversed"].includes(entry.state);
+  return NextResponse.json(
+    {
+      tx: entry.tx,
+      recipient: entry.recipientMsisdn,
+      replayed: true,
+      munopay: {
+        status: accepted ? "success" : "failed",
+        message: accepted ? null : "Payment was not accepted by the gateway.",
+        transaction_id: entry.transactionId,
+        provider_reference: entry.providerTx,
+      },
+    },
+    { status: 200 }
+  );
+}
+
+/**
+ * Initiates a paylink payment on behalf of the browser.
+ * The client only sends { amount, mobile, handle, accountName, provider?, terms? }; the recipient's
+ * gutokey, MSISDN and currency are resolved here so they cannot be tampered with.
+ *
+ * An `Idempotency-Key` header (a UUID the client keeps across reloads) becomes
+ * the payment's tx; repeating it returns the original result instead of
+ * pushing a second prompt. Risky attempts are refused, or answered with 429
+ * until the payer's cooldown is over (see `passChallenge`).
+ */
+export async function POST(request: NextRequest) {
+  const parsed = await parseBody(request, paySchema);
+  if (parsed.response) return parsed.response;
+
+  const {
+    amount,
+    mobile: payer,
+    handle,
+    accountName,
+    email,
+    provider: chosenProvider,
+    terms,
+  } = parsed.data;
+
+  const idempotencyKey = request.headers.get("idempotency-key")?.trim();
+  if (idempotencyKey && !IDEMPOTENCY_KEY.test(idempotencyKey)) {
+    return NextResponse.json({ error: "Invalid Idempotency-Key" }, { status: 400 });
+  }
+  const tx = idempotencyKey?.toLowerCase() || crypto.randomUUID();
+
+  const sameRequest = (entry: LedgerEntry) =>
+    entry.handle === handle && entry.amount === amount && entry.payerMsisdn === payer;
+  const conflict = () =>
+    NextResponse.json(
+      { error: "Idempotency-Key was already used for a different payment" },
+      { status: 422 }
+    );
+
+  const existing = await ledger.get(tx);
+  if (existing) return sameRequest(existing) ? replay(existing) : conflict();
+
+  const state = classifyProfile(handle, await fetchUserPublic(handle, { fresh: true }));
+  if (state.status === "suspended") {
+    return NextResponse.json({ error: "This paylink is not accepting payments" }, { status: 403 });
+  }
+  const profile = state.status === "found" ? state.profile : null;
+  const country = getNumberingPlan(profile?.country).country;
+  const recipient = normalizeMsisdn(profile?.phone ?? "", country);
+  if (!profile?.gutokey || !recipient) {
+    return NextResponse.json({ error: "Recipient not found" }, { status: 404 });
+  }
+
+  // Mobile money is domestic: the payer must be on the recipient's network plan
+  if (countryOfMsisdn(payer) !== country) {
+    return NextResponse.json(
+      { error: "Invalid request", fields: { mobile: invalidMsisdnMessage(country) } },
+      { status: 400 }
+    );
+  }
+
+  // The paylink is denominated in the recipient's currency; bounds follow it
+  const currency = getCurrency(profile.currency ?? currencyForCountry(country)).code;
+  const checkedAmount = amountField(currency)(amount);
+  if ("error" in checkedAmount) {
+    return NextResponse.json(
+      { error: "Invalid request", fields: { amount: checkedAmount.error } },
+      { status: 400 }
+    );
+  }
+
+  // An explicit choice wins over the prefix guess (ported numbers)
+  const provider = chosenProvider
+    ? resolveProvider(country, chosenProvider)
+    : resolveProvider(country, carrierFromMsisdn(payer));
+  if (chosenProvider && !provider) {
+    return NextResponse.json(
+      { error: "Invalid request", fields: { provider: "Choose a supported mobile money network" } },
+      { status: 400 }
+    );
+  }
+
+  // Signed links: the terms must carry our signature and still be payable
+  if (terms) {
+    const check = await checkPaylinkTerms(handle, terms);
+    if (check.status === "invalid") {
+      return NextResponse.json({ error: "This payment link is invalid" }, { status: 400 });
+    }
+    if (check.status === "expired") {
+      return NextResponse.json({ error: "This payment link has expired" }, { status: 410 });
+    }
+    if (check.status === "used") {
+      return NextResponse.json({ error: "This payment link has already been paid" }, { status: 409 });
+    }
+    if (terms.amount !== undefined && terms.amount !== amount) {
+      return NextResponse.json(
+        { error: "Invalid request", fields: { amount: "Amount does not match this payment link" } },
+        { status: 400 }
+      );
+    }
+  }
+
+  // Scored before any prompt is pushed; see lib/risk.ts for the rules
+  const risk = await assessPayment({ tx, handle, amount, currency, payerMsisdn: payer, accountName });
+  if (risk.action === "block") {
+    return NextResponse.json(
+      { error: "This payment can't be processed right now. Please try again later." },
+      { status: 403 }
+    );
+  }
+  if (risk.action === "challenge") {
+    const challenge = await passChallenge(payer);
+    if (!challenge.passed) {
+      return NextResponse.json(
+        {
+          error: "This payment is on hold. Please try again later.",
+          challenge: true,
+          retryAfter: challenge.retryAfter,
+        },
+        { status: 429, headers: { "Retry-After": String(challenge.retryAfter) } }
+      );
+    }
+  }
+
+  const payload = {
+    mobile: payer,
+    provider,
+    amount,
+    currency,
+    memo: (terms && describeTerms(terms)) || `Deposit for ${profile.gutokey}`,
+    invoice_number: terms?.invoice ?? null,
+    gutokey: profile.gutokey,
+    recipient,
+    tx,
+    recipient_name: accountName || profile.name || "",
+    direction: "paylink",
+    country,
+  };
+
+  const created = await ledger.recordInitiated({
+    tx,
+    handle,
+    amount,
+    currency,
+    payerMsisdn: payer,
+    payerEmail: email,
+    provider,
+    invoiceNumber: terms?.invoice ?? null,
+    memo: terms?.memo ?? null,
+    recipientMsisdn: recipient,
+    recipientName: payload.recipient_name,
+  });
+  if (!created) {
+    // Lost a race with a concurrent request carrying the same key
+    const winner = await ledger.get(tx);
+    return winner && sameRequest(winner) ? replay(winner) : conflict();
+  }
+
+  // Claimed after the ledger entry exists, so a rival sees who holds the link
+  if (terms?.singleUse && !(await claimSingleUse(terms.sig, tx))) {
+    await ledger.transition(tx, "cancelled", "pay");
+    return NextResponse.json({ error: "This payment link has already been paid" }, { status: 409 });
+  }
+
+  try {
+    const res = await gutoFetch("/api/pay", { method: "POST", body: JSON.stringify(payload) });
+    if (!res.ok) {
+      console.error("❗ pay non-OK:", res.status, await res.text().catch(() => ""));
+      await ledger.transition(tx, "failed", "pay");
+      return NextResponse.json({ error: `Gateway error ${res.status}` }, { status: 502 });
+    }
+
+    const data = await res.json().catch(() => ({} as any));
+    const munopay = data?.munopay ?? {};
+
+    const accepted = String(munopay.status ?? "").toLowerCase() === "success";
+
+    if (munopay.transaction_id) {
+      await ledger.attachGatewayRef(
+        tx,
+        String(munopay.transaction_id),
+        munopay.provider_reference ?? null
+      );
+    }
+    await ledger.transition(tx, accepted ? "pending" : "failed", "pay");
+
+    return NextResponse.json(
+      {
+        tx,
+        recipient,
+        munopay: {
+          status: munopay.status ?? null,
+          message: munopay.message ?? null,
+          transaction_id: munopay.transaction_id ?? null,
+          provider_reference: munopay.provider_reference ?? null,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("❗ pay error:", error);
+    await ledger.transition(tx, "error", "pay").catch(() => null);
+    return NextResponse.json({ error: "Gateway unreachable" }, { status: 502 });
+  }
+}
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { parseBody } from "~/lib/api";
+import { currencyForCountry, getCurrency } from "~/lib/currency";
+import { buildPaylink } from "~/lib/paylink";
+import { signPaylinkTerms, signedTermsParams } from "~/lib/paylink-signing";
+import { fetchUserPublic } from "~/lib/profile";
+import { getSession } from "~/lib/session";
+import { amountField, mintPaylinkSchema } from "~/lib/validation";
+
+/**
+ * Mints a signed paylink for the signed-in recipient's own handle.
+ *   POST /api/paylinks { amount?, invoice?, memo?, expiresAt?, singleUse? }
+ * → { url, terms }. The page locks a signed amount; an unsigned ?a= stays editable.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Sign in to create payment links" }, { status: 401 });
+  }
+
+  const parsed = await parseBody(request, mintPaylinkSchema);
+  if (parsed.response) return parsed.response;
+
+  const terms = parsed.data;
+  if (terms.amount !== undefined) {
+    const profile = await fetchUserPublic(session.handle);
+    const currency = getCurrency(profile?.currency ?? currencyForCountry(profile?.country)).code;
+    const checked = amountField(currency)(terms.amount);
+    if ("error" in checked) {
+      return NextResponse.json(
+        { error: "Invalid request", fields: { amount: checked.error } },
+        { status: 400 }
+      );
+    }
+  }
+
+  try {
+    const signed = await signPaylinkTerms(session.handle, terms);
+    return NextResponse.json(
+      { url: buildPaylink(session.handle, undefined, signedTermsParams(signed)), terms: signed },
+      { status: 201 }
+    );
+  } catch (err) {
+    console.error("❗ paylink mint error:", err);
+    return NextResponse.json({ error: "Could not sign payment link" }, { status: 500 });
+  }
+}
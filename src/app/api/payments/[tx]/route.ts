@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { ledger } from "~/lib/ledger";
+import { maskMsisdn } from "~/lib/msisdn";
+
+type Params = { tx: string };
+
+/**
+ * Ledger view of one payment by its local tx UUID, used by the form to resume
+ * a payment after a reload. The tx also appears in shared /r/[tx] receipt
+ * links, so neither party's full number is returned: the recipient's is
+ * omitted and the payer's masked (the resuming payer already knows it).
+ */
+export async function GET(_request: Request, { params }: { params: Promise<Params> }) {
+  const { tx } = await params;
+
+  const entry = await ledger.get(tx).catch(() => null);
+  if (!entry) {
+    return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(
+    {
+      tx: entry.tx,
+      transactionId: entry.transactionId,
+      providerTx: entry.providerTx,
+      state: entry.state,
+      amount: entry.amount,
+      currency: entry.currency,
+      payerMsisdn: maskMsisdn(entry.payerMsisdn),
+      recipientName: entry.recipientName,
+      invoiceNumber: entry.invoiceNumber ?? null,
+      memo: entry.memo ?? null,
+      paidAtIso: entry.paidAtIso,
+    },
+    { status: 200 }
+  );
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { parseBody } from "~/lib/api";
+import { safeEqual } from "~/lib/hmac";
+import { invalidateProfile } from "~/lib/profile";
+import { getSession } from "~/lib/session";
+import { profileRevalidateSchema } from "~/lib/validation";
+
+/** The profile service, holding PROFILE_REVALIDATE_SECRET, may revalidate any handle */
+function isProfileService(request: Request) {
+  const secret = process.env.PROFILE_REVALIDATE_SECRET;
+  const auth = request.headers.get("authorization") ?? "";
+  return !!secret && safeEqual(auth, `Bearer ${secret}`);
+}
+
+/**
+ * Drops a cached profile so the next page view reads it fresh.
+ *   POST /api/profiles/revalidate { handle }
+ * Called by the profile service after edits (Bearer PROFILE_REVALIDATE_SECRET),
+ * or by a signed-in recipient for their own handle.
+ */
+export async function POST(request: Request) {
+  const parsed = await parseBody(request, profileRevalidateSchema);
+  if (parsed.response) return parsed.response;
+
+  const { handle } = parsed.data;
+  if (!isProfileService(request)) {
+    const session = await getSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (session.handle !== handle) {
+      return NextResponse.json({ error: "You can only revalidate your own profile" }, { status: 403 });
+    }
+  }
+
+  try {
+    await invalidateProfile(handle);
+  } catch (err) {
+    console.error("❗ profile revalidate error:", err);
+    return NextResponse.json({ error: "Failed to revalidate profile" }, { status: 502 });
+  }
+  return NextResponse.json({ message: "Profile revalidated", handle }, { status: 200 });
+}
@@ -0,0 +1,54 @@
+import { ImageResponse } from "next/og";
+import { NextResponse } from "next/server";
+
+import { createTranslator, detectLocale } from "~/lib/i18n";
+import { RECEIPT_IMAGE_SIZE, ReceiptCard } from "~/lib/receipt-image";
+import { buildReceiptPdf, receiptLabels } from "~/lib/receipt-pdf";
+import { loadPaidEntry, receiptView, resolveLocale } from "~/lib/receipt-view";
+
+type Params = { tx: string };
+
+/**
+ * Server-rendered receipt for a paid transaction.
+ *   GET /api/receipts/:tx?format=png|pdf&locale=en-UG
+ * PNG mirrors the shareable card; PDF is a plain text document for bookkeeping.
+ * `locale` formats amounts and dates; its language (or `?lang=`) picks the labels.
+ */
+export async function GET(request: Request, { params }: { params: Promise<Params> }) {
+  const { tx } = await params;
+  const url = new URL(request.url);
+  const format = url.searchParams.get("format") === "pdf" ? "pdf" : "png";
+  const locale = resolveLocale(url.searchParams.get("locale"));
+  const download = url.searchParams.has("download");
+  const labels = receiptLabels(
+    createTranslator(
+      detectLocale({
+        lang: url.searchParams.get("lang") ?? locale.split("-")[0],
+        acceptLanguage: request.headers.get("accept-language"),
+      })
+    )
+  );
+
+  const entry = await loadPaidEntry(tx);
+  if (!entry) {
+    return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+  }
+
+  const view = await receiptView(entry, locale);
+  const filename = `guto-receipt-${entry.tx.slice(0, 8)}.${format}`;
+  const headers = {
+    "Cache-Control": "private, max-age=300",
+    "Content-Disposition": `${download ? "attachment" : "inline"}; filename="${filename}"`,
+  };
+
+  if (format === "pdf") {
+    return new Response(buildReceiptPdf(view, entry.transactionId, labels), {
+      headers: { ...headers, "Content-Type": "application/pdf" },
+    });
+  }
+
+  return new ImageResponse(<ReceiptCard {...view} labels={labels} />, {
+    ...RECEIPT_IMAGE_SIZE,
+    headers,
+  });
+}
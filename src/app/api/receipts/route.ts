@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { parseBody } from "~/lib/api";
+import { ledger } from "~/lib/ledger";
+import { sendPaidReceipts } from "~/lib/receipt-mail";
+import { readTransactionStatus } from "~/lib/transaction-status";
+import { receiptRequestSchema } from "~/lib/validation";
+
+/**
+ * Fallback trigger for the receipt emails: the webhook and gateway polls send
+ * them when the payment reaches "paid", and the payer's browser POSTs here
+ * after seeing it paid in case neither has. Only sends once the gateway
+ * reports the transaction as paid, and only once per transaction.
+ */
+export async function POST(request: Request) {
+  const parsed = await parseBody(request, receiptRequestSchema);
+  if (parsed.response) return parsed.response;
+
+  const { transactionId } = parsed.data;
+
+  // Read the status first so the ledger entry below reflects the "paid" transition
+  const status = await readTransactionStatus(transactionId, { askGateway: true });
+  if (!status) {
+    return NextResponse.json({ error: "Gateway unreachable" }, { status: 502 });
+  }
+  if (status !== "paid") {
+    return NextResponse.json({ error: "Transaction is not paid yet" }, { status: 409 });
+  }
+
+  const entry = await ledger.byTransactionId(transactionId);
+  if (!entry) {
+    return NextResponse.json({ error: "Transaction not found" }, { status: 404 });
+  }
+
+  const result = await sendPaidReceipts(entry);
+  if (result.status === "already-sent") {
+    return NextResponse.json({ message: "Receipt already sent" }, { status: 200 });
+  }
+  if (result.status === "failed") {
+    return NextResponse.json({ error: "Failed to send receipt" }, { status: 502 });
+  }
+  return NextResponse.json({ message: "Receipt sent", sent: result.sent }, { status: 200 });
+}
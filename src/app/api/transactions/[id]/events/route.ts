@@ -0,0 +1,65 @@
+import { isFinalStatus, readTransactionStatus } from "~/lib/transaction-status";
+
+export const dynamic = "force-dynamic";
+
+type Params = { id: string };
+
+const TICK_MS = 2000;
+/** Ask the gateway on every Nth tick; the webhook store is read every tick */
+const GATEWAY_EVERY = 3;
+const STREAM_TIMEOUT_MS = 180_000;
+
+/**
+ * Server-Sent Events stream of status transitions for one transaction.
+ * Emits `status` events ({ status }) on change, `timeout` when giving up, and
+ * closes after a final status.
+ */
+export async function GET(request: Request, { params }: { params: Promise<Params> }) {
+  const { id } = await params;
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const send = (event: string, data: unknown) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const started = Date.now();
+      let last: string | null = null;
+      let tick = 0;
+
+      write(`retry: ${TICK_MS}\n\n`);
+
+      try {
+        while (!request.signal.aborted && Date.now() - started < STREAM_TIMEOUT_MS) {
+          const status = await readTransactionStatus(id, { askGateway: tick % GATEWAY_EVERY === 0 });
+
+          if (status && status !== last) {
+            last = status;
+            send("status", { status });
+            if (isFinalStatus(status)) break;
+          } else {
+            write(": ping\n\n");
+          }
+
+          tick++;
+          await new Promise((r) => setTimeout(r, TICK_MS));
+        }
+
+        if (!request.signal.aborted && !isFinalStatus(last)) send("timeout", {});
+      } catch (error) {
+        console.error("❗ status stream error:", error);
+      } finally {
+        try { controller.close(); } catch {}
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+
+import { readTransactionStatus } from "~/lib/transaction-status";
+
+type Params = { id: string };
+
+/**
+ * Transaction status for the browser. Final statuses recorded by the gateway
+ * webhook are served from our store; otherwise the gateway is asked directly.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<Params> }) {
+  const { id } = await params;
+
+  const status = await readTransactionStatus(id, { askGateway: true });
+  if (!status) {
+    return NextResponse.json({ error: "Gateway unreachable" }, { status: 502 });
+  }
+  return NextResponse.json({ api_status: status }, { status: 200 });
+}
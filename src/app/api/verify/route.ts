@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+
+import { parseBody } from "~/lib/api";
+import { lookupAccountName } from "~/lib/guto";
+import { verifySchema } from "~/lib/validation";
+
+/** Looks up the registered account name for a payer MSISDN */
+export async function POST(request: Request) {
+  const parsed = await parseBody(request, verifySchema);
+  if (parsed.response) return parsed.response;
+
+  const { mobile } = parsed.data;
+
+  try {
+    return NextResponse.json({ name: await lookupAccountName(mobile) }, { status: 200 });
+  } catch (error) {
+    console.error("❗ verify error:", error);
+    return NextResponse.json({ error: "Gateway unreachable" }, { status: 502 });
+  }
+}
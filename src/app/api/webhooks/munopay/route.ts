@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { hmacSha256Hex, safeEqual } from "~/lib/hmac";
+import { ledger, toLedgerState } from "~/lib/ledger";
+import { sendReceiptsWhenPaid } from "~/lib/receipt-mail";
+import { recordStatus } from "~/lib/transaction-status";
+
+/**
+ * Gateway (munopay) payment callback.
+ * The body is signed with HMAC-SHA256 over the raw bytes using
+ * MUNOPAY_WEBHOOK_SECRET, sent hex-encoded in x-munopay-signature
+ * (an optional "sha256=" prefix is accepted).
+ */
+export async function POST(request: Request) {
+  const secret = process.env.MUNOPAY_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("❗ webhook: MUNOPAY_WEBHOOK_SECRET is not set");
+    return NextResponse.json({ error: "Webhook not configured" }, { status: 500 });
+  }
+
+  const raw = await request.text();
+  const header = request.headers.get("x-munopay-signature") ?? "";
+  const signature = header.replace(/^sha256=/i, "").trim().toLowerCase();
+  const expected = await hmacSha256Hex(secret, raw);
+
+  if (!signature || !safeEqual(signature, expected)) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const data = body?.data ?? body;
+  const transactionId = data?.transaction_id ?? data?.transactionId;
+  const status = data?.api_status ?? data?.status;
+
+  if (!transactionId || typeof status !== "string") {
+    return NextResponse.json({ error: "Missing transaction_id or status" }, { status: 400 });
+  }
+
+  const providerTx = data?.provider_reference ?? null;
+  const tx = data?.tx ?? data?.reference ?? null;
+  const result = await recordStatus({
+    status: status.toLowerCase(),
+    transactionId: String(transactionId),
+    tx,
+    providerTx,
+    updatedAtIso: new Date().toISOString(),
+  });
+
+  // The callback can beat /api/pay's attachGatewayRef; link the ids by our tx
+  // so it still finds its entry
+  if (tx && !(await ledger.byTransactionId(String(transactionId)))) {
+    await ledger.attachGatewayRef(String(tx), String(transactionId), providerTx);
+  }
+  // Applied on redeliveries too: transition() ignores repeats, and an earlier
+  // delivery may have arrived before the entry could be found
+  const entry = await ledger.transition(String(transactionId), toLedgerState(status), "webhook", {
+    providerTx,
+  });
+  sendReceiptsWhenPaid(entry);
+
+  // Always 200 on a valid delivery so the gateway stops retrying
+  return NextResponse.json({ received: true, duplicate: result === "duplicate" }, { status: 200 });
+}
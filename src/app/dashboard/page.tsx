@@ -0,0 +1,197 @@
+// src/app/dashboard/page.tsx
+import type { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { formatMoney } from "~/lib/currency";
+import {
+  dailyTotals,
+  listDashboardEntries,
+  parseDashboardFilter,
+  timeZoneFor,
+} from "~/lib/dashboard";
+import { LEDGER_STATES } from "~/lib/ledger";
+import { fetchUserPublic } from "~/lib/profile";
+import { fmtDate } from "~/lib/receipt";
+import { getSession } from "~/lib/session";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+type PageProps = { searchParams?: Promise<SearchParams> };
+
+const MAX_ROWS = 200;
+
+export const metadata: Metadata = {
+  title: "Dashboard",
+  robots: { index: false, follow: false },
+};
+
+const inputClass =
+  "bg-background border border-border text-foreground px-3 py-2 rounded-[12px] text-sm";
+
+/* ---------------- page render ---------------- */
+/**
+ * Payments received through the signed-in recipient's paylink:
+ *   /dashboard?status=paid&from=2025-09-01&to=2025-09-30&min=&max=
+ */
+export default async function DashboardPage(props: PageProps) {
+  const session = await getSession();
+  if (!session) redirect("/login?next=/dashboard");
+
+  const search = (await props.searchParams) ?? {};
+  const profile = await fetchUserPublic(session.handle);
+  const timeZone = timeZoneFor(profile?.country);
+  const filter = parseDashboardFilter(search, timeZone);
+
+  const entries = await listDashboardEntries(session.handle, filter, timeZone);
+  const days = dailyTotals(entries, timeZone);
+  const rows = entries.slice(0, MAX_ROWS);
+
+  const sumText = (paid: Record<string, number>) =>
+    Object.entries(paid)
+      .map(([currency, amount]) => formatMoney(amount, currency))
+      .join(" + ") || "—";
+  const rangePaid = days.reduce<Record<string, number>>((acc, d) => {
+    for (const [currency, amount] of Object.entries(d.paid)) acc[currency] = (acc[currency] ?? 0) + amount;
+    return acc;
+  }, {});
+
+  return (
+    <main className="mx-auto max-w-4xl w-full flex-1 flex flex-col gap-8 px-4 py-10">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{profile?.name || `@${session.handle}`}</h1>
+          <p className="text-sm text-muted-foreground">
+            <Link href={`/@${session.handle}`} className="hover:text-foreground">@{session.handle}</Link>
+            {" · "}payments received
+          </p>
+        </div>
+        <form method="post" action="/api/auth/logout">
+          <button type="submit" className="text-sm text-muted-foreground hover:text-foreground">
+            Sign out
+          </button>
+        </form>
+      </div>
+
+      <form method="get" className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+          Status
+          <select name="status" defaultValue={filter.status} className={inputClass}>
+            <option value="all">All</option>
+            {LEDGER_STATES.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+          From
+          <input type="date" name="from" defaultValue={filter.from} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+          To
+          <input type="date" name="to" defaultValue={filter.to} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+          Min amount
+          <input name="min" inputMode="decimal" defaultValue={filter.minAmount ?? ""} className={`${inputClass} w-28`} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+          Max amount
+          <input name="max" inputMode="decimal" defaultValue={filter.maxAmount ?? ""} className={`${inputClass} w-28`} />
+        </label>
+        <button type="submit" className="bg-[#009e4f] text-white dark:text-black font-semibold px-4 py-2 rounded-[12px] text-sm">
+          Apply
+        </button>
+      </form>
+
+      <section className="flex flex-col gap-3">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-lg font-semibold">Daily totals</h2>
+          <p className="text-sm text-muted-foreground">
+            {entries.length} payments · received {sumText(rangePaid)}
+          </p>
+        </div>
+        {days.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments match these filters.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-muted-foreground">
+              <tr>
+                <th className="py-2 font-medium">Day</th>
+                <th className="py-2 font-medium text-right">Payments</th>
+                <th className="py-2 font-medium text-right">Paid</th>
+                <th className="py-2 font-medium text-right">Received</th>
+              </tr>
+            </thead>
+            <tbody>
+              {days.map((d) => (
+                <tr key={d.day} className="border-t border-border">
+                  <td className="py-2">{d.day}</td>
+                  <td className="py-2 text-right">{d.count}</td>
+                  <td className="py-2 text-right">{d.paidCount}</td>
+                  <td className="py-2 text-right font-semibold">{sumText(d.paid)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {rows.length > 0 && (
+        <section className="flex flex-col gap-3">
+          <div className="flex items-baseline justify-between">
+            <h2 className="text-lg font-semibold">Transactions</h2>
+            <p className="text-sm text-muted-foreground flex gap-3">
+              Export paid:
+              {(["csv", "json", "statement"] as const).map((format) => (
+                <a
+                  key={format}
+                  href={`/api/exports?format=${format}&from=${filter.from}&to=${filter.to}`}
+                  className="text-[#009e4f] underline"
+                >
+                  {format === "statement" ? "Bank statement" : format.toUpperCase()}
+                </a>
+              ))}
+            </p>
+          </div>
+          <table className="w-full text-sm">
+            <thead className="text-left text-muted-foreground">
+              <tr>
+                <th className="py-2 font-medium">Date</th>
+                <th className="py-2 font-medium">From</th>
+                <th className="py-2 font-medium">Invoice</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2 font-medium text-right">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((e) => (
+                <tr key={e.tx} className="border-t border-border">
+                  <td className="py-2">{fmtDate(new Date(e.createdAtIso), timeZone)}</td>
+                  <td className="py-2 font-mono">+{e.payerMsisdn}</td>
+                  <td className="py-2">{e.invoiceNumber ?? ""}</td>
+                  <td className="py-2">{e.state}</td>
+                  <td className="py-2 text-right font-semibold">
+                    {e.state === "paid" ? (
+                      <Link href={`/r/${encodeURIComponent(e.tx)}`} className="text-[#009e4f] underline">
+                        {formatMoney(e.amount, e.currency)}
+                      </Link>
+                    ) : (
+                      formatMoney(e.amount, e.currency)
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {entries.length > rows.length && (
+            <p className="text-xs text-muted-foreground">
+              Showing the latest {rows.length} of {entries.length}. Narrow the dates to see older payments.
+            </p>
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
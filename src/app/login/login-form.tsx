@@ -0,0 +1,70 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { toast } from "sonner";
+
+import { firstError, loginSchema } from "~/lib/validation";
+
+export default function LoginForm({ next }: { next?: string }) {
+  const [handle, setHandle] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (loading) return;
+
+    const parsed = loginSchema({ handle, next });
+    if (!parsed.success) {
+      toast.error(firstError(parsed.errors));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(parsed.data),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error ?? `HTTP error ${res.status}`);
+      setSent(true);
+      toast.success(body?.message ?? "Check your email");
+    } catch (err: any) {
+      console.error("❗ login error:", err);
+      toast.error(err?.message || "Could not send the sign-in link");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="rounded-2xl border bg-card text-card-foreground shadow-sm p-4 sm:p-6 text-sm text-center" role="status">
+        Check your email for a sign-in link. It expires in 15 minutes.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="flex items-stretch gap-2 text-sm">
+      <label htmlFor="login-handle" className="sr-only">Paylink handle</label>
+      <input
+        id="login-handle"
+        value={handle}
+        onChange={(e) => setHandle(e.target.value)}
+        placeholder="@yourhandle"
+        autoComplete="username"
+        className="flex-grow bg-background border border-border text-foreground px-4 py-2 rounded-[12px]"
+      />
+      <button
+        type="submit"
+        disabled={loading}
+        className="bg-[#009e4f] text-white dark:text-black font-semibold px-4 py-2 rounded-[12px] disabled:opacity-60"
+      >
+        {loading ? "Sending…" : "Email me a link"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,48 @@
+// src/app/login/page.tsx
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+
+import LoginForm from "./login-form";
+import { getSession } from "~/lib/session";
+import { nextPathField } from "~/lib/validation";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+type PageProps = { searchParams?: Promise<SearchParams> };
+
+export const metadata: Metadata = {
+  title: "Sign in",
+  description: "Sign in to manage your Guto paylink.",
+  robots: { index: false, follow: false },
+};
+
+const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v);
+
+export default async function LoginPage(props: PageProps) {
+  const search = (await props.searchParams) ?? {};
+  const checkedNext = nextPathField(first(search.next));
+  const next = "value" in checkedNext ? checkedNext.value : undefined;
+
+  const session = await getSession();
+  if (session) redirect(next ?? `/@${session.handle}`);
+
+  return (
+    <main className="mx-auto max-w-md w-full flex-1 flex flex-col gap-6 px-4 py-16">
+      <div className="flex flex-col gap-2 text-center">
+        <h1 className="text-2xl font-bold">Sign in to your paylink</h1>
+        <p className="text-sm text-muted-foreground">
+          We’ll email a one-time link to the address on your Guto profile.
+        </p>
+      </div>
+
+      {first(search.error) === "expired" && (
+        <div className="rounded-2xl border border-red-500/40 bg-red-500/10 p-4 text-sm" role="alert">
+          That sign-in link has expired or was already used. Request a new one below.
+        </div>
+      )}
+
+      <LoginForm next={next} />
+    </main>
+  );
+}
@@ -8,41 +8,48 @@ import Footer from "~/components/footer";
 import Hero from "~/components/hero";
 import { Confetti, ConfettiRef } from "~/components/magicui/confetti";
 import Powered from "~/components/powered";
+import { DEFAULT_LOCALE, type Locale } from "~/lib/i18n";
+import type { PaylinkTermsState } from "~/lib/paylink-signing";
+import type { UserProfile } from "~/lib/profile";
+import { I18nProvider } from "~/providers/i18n-provider";
 
-// Keep this in sync with what <Hero /> expects
-export type UserProfile = {
-  name: string;
-    gutokey: string;
-  phone: string;
-  handle?: string;
-  avatarUrl?: string;
-  verified?: boolean;
-};
+export type { UserProfile };
 
 type LandingPageProps = {
   user: UserProfile;     // provided by the caller
-  amount?: number;       // provided by the caller (UGX)
+  amount?: number;       // provided by the caller (major units of the profile currency)
+  locale?: Locale;       // detected by the caller from ?lang= / Accept-Language
+  paylinkTerms?: PaylinkTermsState; // signed terms, checked by the caller
+  isOwner?: boolean;     // signed in as this paylink's recipient
 };
 
-export function LandingPage({ user, amount = 0 }: LandingPageProps) {
+export function LandingPage({
+  user,
+  amount = 0,
+  locale = DEFAULT_LOCALE,
+  paylinkTerms,
+  isOwner = false,
+}: LandingPageProps) {
   const confettiRef = useRef<ConfettiRef>(null);
 
   return (
-    <main className="mx-auto max-w-screen-2xl w-full h-full flex-1 flex flex-col relative">
-      <Confetti
-        ref={confettiRef}
-        className="fixed inset-0 z-50 pointer-events-none"
-        manualstart={true}
-      />
-
-      {/* Pass through values received from parent */}
-      <Hero initialAmount={amount} user={user} />
-
-      <Demo videoSrc="" thumbnailSrc="" />
-      <Powered />
-      <Faq />
-      <Footer />
-    </main>
+    <I18nProvider locale={locale} country={user.country}>
+      <main className="mx-auto max-w-screen-2xl w-full h-full flex-1 flex flex-col relative">
+        <Confetti
+          ref={confettiRef}
+          className="fixed inset-0 z-50 pointer-events-none"
+          manualstart={true}
+        />
+
+        {/* Pass through values received from parent */}
+        <Hero initialAmount={amount} user={user} paylinkTerms={paylinkTerms} isOwner={isOwner} />
+
+        <Demo videoSrc="" thumbnailSrc="" />
+        <Powered />
+        <Faq />
+        <Footer />
+      </main>
+    </I18nProvider>
   );
 }
 
@@ -1,8 +1,16 @@
 // app/page.tsx
-import LandingPage, { type UserProfile } from "./page.client";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+
+import { detectLocale } from "~/lib/i18n";
+import { fetchProfileState, normalizeHandleParam, toUserProfile } from "~/lib/profile";
+import LandingPage from "./page.client";
 
 export const dynamic = "force-dynamic";
 
+/** Profile the home page demos; a real paylink, so payments here are real */
+const HOME_PAYLINK_HANDLE = normalizeHandleParam(process.env.HOME_PAYLINK_HANDLE || "gutot6f");
+
 type SearchParams = Record<string, string | string[] | undefined>;
 type PageProps = { searchParams?: SearchParams | Promise<SearchParams> };
 
@@ -24,13 +32,15 @@ export default async function Home({ searchParams }: PageProps) {
   const amount: number | undefined =
     Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
 
-  const user: UserProfile = {
-      gutokey: "zQ3shaHnFG265Z81W4mfLog8DYcMheJhdC8ywZnzPXnrNrJTE",
-  phone: "0761102200",
-    name: "Guto Paylink",
-    handle: "@gutot6f",
-    verified: true,
-  };
+  let state = await fetchProfileState(HOME_PAYLINK_HANDLE);
+  if (state.status === "moved") state = await fetchProfileState(state.to);
+  if (state.status === "not-found" || state.status === "moved") notFound();
+  const user = toUserProfile(state);
+
+  const locale = detectLocale({
+    lang: params.lang,
+    acceptLanguage: (await headers()).get("accept-language"),
+  });
 
-  return <LandingPage user={user} amount={amount} />;
+  return <LandingPage user={user} amount={amount} locale={locale} />;
 }
@@ -0,0 +1,84 @@
+// src/app/r/[tx]/opengraph-image.tsx
+import { ImageResponse } from "next/og";
+
+import { formatMoney } from "~/lib/currency";
+import { ledger } from "~/lib/ledger";
+
+export const runtime = "edge";
+export const contentType = "image/png";
+export const size = { width: 1200, height: 630 };
+
+type Props = { params: { tx: string } | Promise<{ tx: string }> };
+
+export default async function ReceiptOpengraphImage({ params }: Props) {
+  const { tx } = await params;
+  const entry = await ledger.get(tx).catch(() => null);
+  const paid = entry?.state === "paid" ? entry : null;
+
+  const headline = paid ? formatMoney(paid.amount, paid.currency) : "Receipt";
+  const subline = paid ? `Paid to @${paid.handle}` : "Not found";
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: 1200,
+          height: 630,
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          justifyContent: "center",
+          background: "#009e4f",
+          position: "relative",
+          color: "#fff",
+          fontFamily: 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Arial',
+        }}
+      >
+        <div
+          style={{
+            position: "absolute",
+            inset: 0,
+            background:
+              "radial-gradient(780px 320px at 50% 58%, rgba(255,255,255,0.14), transparent 60%)",
+          }}
+        />
+
+        <div style={{ zIndex: 1, fontSize: 148, fontWeight: 900, letterSpacing: -2, lineHeight: 1.06 }}>
+          {headline}
+        </div>
+        <div style={{ zIndex: 1, marginTop: 18, fontSize: 44, fontWeight: 700, opacity: 0.95 }}>
+          {subline}
+        </div>
+
+        <div
+          style={{
+            position: "absolute",
+            bottom: 28,
+            width: "100%",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: 10,
+            color: "rgba(255,255,255,0.95)",
+            fontSize: 28,
+            fontWeight: 800,
+            textTransform: "uppercase",
+            letterSpacing: 0.3,
+          }}
+        >
+          <span
+            style={{
+              width: 10,
+              height: 10,
+              borderRadius: 999,
+              background: "#ffffff",
+              boxShadow: "0 0 10px rgba(255,255,255,0.9)",
+            }}
+          />
+          {paid ? "Verified receipt • Guto Paylink" : "Guto Paylink"}
+        </div>
+      </div>
+    ),
+    { ...size }
+  );
+}
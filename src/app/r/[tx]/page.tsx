@@ -0,0 +1,89 @@
+// src/app/r/[tx]/page.tsx
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+import { formatMoney } from "~/lib/currency";
+import { buildReceiptSVG } from "~/lib/receipt";
+import { verifyReceiptCode } from "~/lib/receipt-signing";
+import { loadPaidEntry, receiptView } from "~/lib/receipt-view";
+
+export const dynamic = "force-dynamic";
+
+type Params = { tx: string };
+type SearchParams = Record<string, string | string[] | undefined>;
+type PageProps = {
+  params: Promise<Params>;
+  searchParams?: Promise<SearchParams>;
+};
+
+export async function generateMetadata(props: PageProps): Promise<Metadata> {
+  const { tx } = await props.params;
+  const entry = await loadPaidEntry(tx);
+  if (!entry) return { title: "Receipt not found", robots: { index: false, follow: false } };
+
+  const title = `Receipt • ${formatMoney(entry.amount, entry.currency)} to @${entry.handle}`;
+  return {
+    title,
+    description: "A verifiable Guto Paylink payment receipt.",
+    robots: { index: false, follow: false },
+    openGraph: { title, type: "website", siteName: "Guto" },
+    twitter: { card: "summary_large_image", title },
+  };
+}
+
+/* ---------------- page render ---------------- */
+export default async function ReceiptPage(props: PageProps) {
+  const { tx } = await props.params;
+  const search = (await props.searchParams) ?? {};
+
+  const entry = await loadPaidEntry(tx);
+  if (!entry) notFound();
+
+  const view = await receiptView(entry);
+  const code = view.verifyCode;
+
+  const rawV = Array.isArray(search.v) ? search.v[0] : search.v;
+  const linkCheck = rawV ? ((await verifyReceiptCode(entry, rawV)) ? "match" : "mismatch") : null;
+
+  const svg = buildReceiptSVG({ ...view, brand: { name: "Guto", green: "#009e4f" } });
+
+  return (
+    <main className="mx-auto max-w-xl w-full flex-1 flex flex-col gap-6 px-4 py-10">
+      {linkCheck === "mismatch" ? (
+        <div className="rounded-2xl border border-red-500/40 bg-red-500/10 p-4 text-sm" role="alert">
+          <p className="font-semibold">This link’s verification code does not match.</p>
+          <p className="text-muted-foreground">
+            The receipt below is the genuine record for this reference. If someone shared different details with you, they may have been altered.
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-2xl border border-[#009e4f]/40 bg-[#009e4f]/10 p-4 text-sm" role="status">
+          <p className="font-semibold">Genuine receipt</p>
+          <p className="text-muted-foreground">
+            This payment is recorded by Guto. Verification code <span className="font-mono font-semibold text-foreground">{code}</span>
+          </p>
+        </div>
+      )}
+
+      <div
+        className="rounded-xl overflow-hidden ring-1 ring-border [&>svg]:w-full [&>svg]:h-auto"
+        // buildReceiptSVG escapes every interpolated value
+        dangerouslySetInnerHTML={{ __html: svg }}
+      />
+
+      <form method="get" className="flex items-stretch gap-2 text-sm">
+        <label htmlFor="verify-code" className="sr-only">Verification code</label>
+        <input
+          id="verify-code"
+          name="v"
+          defaultValue={rawV ?? ""}
+          placeholder="Check a verification code"
+          className="flex-grow bg-background border border-border text-foreground px-4 py-2 rounded-[12px] font-mono uppercase"
+        />
+        <button type="submit" className="bg-[#009e4f] text-white dark:text-black font-semibold px-4 py-2 rounded-[12px]">
+          Verify
+        </button>
+      </form>
+    </main>
+  );
+}
@@ -0,0 +1,10 @@
+import type { MetadataRoute } from "next";
+
+import { siteUrl } from "~/lib/paylink";
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: { userAgent: "*", allow: "/", disallow: ["/api/", "/dashboard", "/login", "/r/"] },
+    sitemap: siteUrl("/sitemap.xml"),
+  };
+}
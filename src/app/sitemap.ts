@@ -0,0 +1,34 @@
+import type { MetadataRoute } from "next";
+
+import { canonicalHandlePath } from "~/lib/handle";
+import { siteUrl } from "~/lib/paylink";
+import { classifyProfile, iteratePublicProfiles, normalizeHandleParam } from "~/lib/profile";
+
+/** Rebuilt at most hourly; new paylinks don't need to appear instantly */
+export const revalidate = 3600;
+
+/** The protocol's per-file limit */
+const MAX_URLS = 50_000;
+
+/**
+ * Public, verified paylinks that take payments. Incomplete and suspended
+ * profiles are noindex on their pages, so they are left out here too.
+ */
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const entries: MetadataRoute.Sitemap = [{ url: siteUrl("/"), changeFrequency: "weekly", priority: 1 }];
+
+  try {
+    for await (const profile of iteratePublicProfiles()) {
+      const handle = normalizeHandleParam(profile.username ?? "");
+      if (!handle || profile.verified === false) continue;
+      if (classifyProfile(handle, profile).status !== "found") continue;
+
+      entries.push({ url: siteUrl(canonicalHandlePath(handle)), changeFrequency: "weekly", priority: 0.8 });
+      if (entries.length >= MAX_URLS) break;
+    }
+  } catch (err) {
+    // a partial sitemap beats none
+    console.error("❗ sitemap error:", err);
+  }
+  return entries;
+}
@@ -6,14 +6,38 @@ import {
   useCallback,
   type FormEvent,
   useEffect,
-  useRef,
 } from "react";
 import { AnimatePresence, motion } from "motion/react";
 import { toast } from "sonner";
 import confetti from "canvas-confetti";
 
+import { type TransactionOutcome, useTransactionStatus } from "~/hooks/use-transaction-status";
+import { currencyForCountry, formatMoney, getCurrency } from "~/lib/currency";
+import { quoteFee } from "~/lib/fees";
+import { regionName } from "~/lib/i18n";
+import { carrierFromMsisdn, getNumberingPlan, normalizeMsisdn } from "~/lib/msisdn";
+import {
+  clearPendingPayment,
+  loadPendingPayment,
+  savePendingPayment,
+  uuidv4,
+} from "~/lib/pending-payment";
+import { type SignedTerms, signedTermsParams } from "~/lib/paylink-signing";
+import type { PaidReceipt } from "~/lib/receipt";
+import {
+  type FieldErrors,
+  amountField,
+  firstError,
+  msisdnField,
+  paySchemaFor,
+} from "~/lib/validation";
+import { useI18n } from "~/providers/i18n-provider";
+
 type Step = "amount" | "phone" | "account";
 
+/** /api/pay answers that mean no prompt was pushed for this key */
+const REJECTED_STATUSES = [400, 403, 410, 422];
+
 interface FormProps {
   onSuccessChange?: (success: boolean) => void;
 
@@ -22,74 +46,32 @@ interface FormProps {
   /** If true, start on amount step even when initialAmount exists */
   startOnAmount?: boolean;
 
-  /** Validation bounds (UGX) */
-  minAmount?: number; // default 500
-  maxAmount?: number; // default 50,000,000
+  /** Validation bounds in major units; default to the currency's wallet limits */
+  minAmount?: number;
+  maxAmount?: number;
 
-  /** Server fields to send to /api/pay (recipient/profile side) */
-  gutokey?: string;
-  recipientMobile?: string;   // 07… / 2567… / +2567…
+  /** Recipient paylink handle; gutokey/MSISDN are resolved server-side by /api/pay */
+  handle?: string;
   recipientName?: string;
-  country?: string;           // "UG"
-  direction?: string;         // "paylink" | "deposit" etc.
+  /** Recipient's country (ISO alpha-2); picks the numbering plan, default "UG" */
+  country?: string;
+  /** ISO 4217 code the paylink is denominated in; defaults to the country's */
+  currency?: string;
+  /** Signed invoice terms from the paylink URL; echoed to /api/pay for verification */
+  terms?: SignedTerms;
 
-  /** Optional: override status endpoint base (defaults to prod) */
-  statusBaseUrl?: string;     // e.g. "https://api.guto.app/api/transactions"
+  /** Optional: override status endpoint base (defaults to our own proxy) */
+  statusBaseUrl?: string;     // e.g. "/api/transactions"
 
   /** Fired ONLY when callback confirms api_status === "paid" */
-  onPaid?: (info: {
-    amount: number;
-    tx: string;
-    providerTx?: string | null;
-    paidAtIso: string;
-    payerMsisdn: string;
-    recipientMsisdn: string;
-    recipientName: string;
-  }) => void;
+  onPaid?: (info: PaidReceipt) => void;
 }
 
-/** Normalize a Ugandan mobile number to "2567XXXXXXXX" (12 digits, no "+") */
-function normalizeUgMobile(input: string): string | null {
-  if (!input) return null;
-  const raw = input.replace(/[^+\d]/g, "");
-  const plus = /^\+?256(7\d{8})$/;
-  const local = /^0(7\d{8})$/;
-  if (plus.test(raw)) return "256" + raw.match(plus)![1];
-  if (local.test(raw)) return "256" + raw.match(local)![1];
-  return null;
-}
-
-/** UUID v4 (uses crypto.randomUUID when available) */
-function uuidv4(): string {
-  if (typeof crypto !== "undefined" && (crypto as any).randomUUID) {
-    return (crypto as any).randomUUID();
-  }
-  const b = new Uint8Array(16);
-  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
-    crypto.getRandomValues(b);
-  } else {
-    for (let i = 0; i < 16; i++) b[i] = Math.floor(Math.random() * 256);
-  }
-  b[6] = (b[6] & 0x0f) | 0x40;
-  b[8] = (b[8] & 0x3f) | 0x80;
-  const h = Array.from(b, (x) => x.toString(16).padStart(2, "0"));
-  return `${h[0]}${h[1]}${h[2]}${h[3]}-${h[4]}${h[5]}-${h[6]}${h[7]}-${h[8]}${h[9]}-${h[10]}${h[11]}${h[12]}${h[13]}${h[14]}${h[15]}`;
-}
-
-/** Carrier hint (non-authoritative) */
-function carrierFromMsisdn(msisdn: string | null): "MTN" | "Airtel" | "Unknown" {
-  if (!msisdn) return "Unknown";
-  const p = msisdn.slice(4, 6);
-  if (["76", "77", "78"].includes(p)) return "MTN";
-  if (["70", "75"].includes(p)) return "Airtel";
-  return "Unknown";
-}
-
-async function fetchGutoName(msisdn: string): Promise<string | null> {
-  const normalized = normalizeUgMobile(msisdn);
+async function fetchGutoName(msisdn: string, country?: string): Promise<string | null> {
+  const normalized = normalizeMsisdn(msisdn, country);
   if (!normalized) return null;
   try {
-    const res = await fetch("https://api.guto.app/api/verify", {
+    const res = await fetch("/api/verify", {
       method: "POST",
       headers: { "Content-Type": "application/json", Accept: "application/json" },
       body: JSON.stringify({ mobile: normalized }),
@@ -99,116 +81,101 @@ async function fetchGutoName(msisdn: string): Promise<string | null> {
       return null;
     }
     const data = await res.json();
-    return data?.raw?.contact?.name ?? null;
+    return data?.name ?? null;
   } catch (e) {
     console.error("❗ verify error:", e);
     return null;
   }
 }
 
-/** Poll the transaction status until api_status === "paid" (or failure/timeout) */
-async function pollUntilPaid(opts: {
-  statusUrl: string;
-  intervalMs?: number;
-  maxIntervalMs?: number;
-  timeoutMs?: number;
-  onTick?: (s: string | undefined) => void;
-  signal?: AbortSignal;
-}): Promise<"paid" | "failed" | "timeout"> {
-  const {
-    statusUrl,
-    intervalMs = 3000,
-    maxIntervalMs = 7000,
-    timeoutMs = 180_000,
-    onTick,
-    signal,
-  } = opts;
-
-  const start = Date.now();
-  let backoff = intervalMs;
-
-  const readStatus = async (): Promise<string | undefined> => {
-    const res = await fetch(statusUrl, { cache: "no-store", signal });
-    if (!res.ok) {
-      if (res.status === 404) return "pending"; // not yet in DB; keep waiting
-      return undefined;
-    }
-    const js = await res.json().catch(() => ({} as any));
-    const s =
-      js?.data?.api_status ??
-      js?.transaction?.api_status ??
-      js?.api_status ??
-      js?.status;
-    return typeof s === "string" ? s.toLowerCase() : undefined;
-  };
-
-  while (Date.now() - start < timeoutMs) {
-    if (signal?.aborted) return "timeout";
-    let status: string | undefined;
-    try {
-      status = await readStatus();
-    } catch {
-      status = undefined;
-    }
-    onTick?.(status);
-
-    if (status === "paid") return "paid";
-    if (status && ["failed", "cancelled", "reversed", "error"].includes(status))
-      return "failed";
-
-    await new Promise((r) => setTimeout(r, backoff));
-    backoff = Math.min(backoff + 1000, maxIntervalMs);
-  }
-  return "timeout";
-}
-
 export default function Form({
   onSuccessChange,
   onPaid,                     // ← added
   initialAmount,
   startOnAmount,
-  minAmount = 500,
-  maxAmount = 50_000_000,
-  gutokey,
-  recipientMobile,
+  minAmount,
+  maxAmount,
+  handle,
   recipientName,
   country = "UG",
-  direction = "paylink",
-  statusBaseUrl = "https://api.guto.app/api/transactions",
+  currency: currencyProp,
+  terms,
+  statusBaseUrl = "/api/transactions",
 }: FormProps) {
+  const { locale, intl, t } = useI18n();
+  const plan = getNumberingPlan(country);
+  const currency = getCurrency(currencyProp ?? currencyForCountry(plan.country));
+  const min = minAmount ?? currency.minAmount;
+  const max = maxAmount ?? currency.maxAmount;
   const startAtAmount = startOnAmount ?? !initialAmount;
   const [step, setStep] = useState<Step>(startAtAmount ? "amount" : "phone");
 
-  // Stable UUID for this form/session
-  const txRef = useRef<string>(uuidv4());
-
   const [amount, setAmount] = useState<number>(initialAmount ?? 0);
   const [phone, setPhone] = useState<string>("");
   const [accountName, setAccountName] = useState<string>("");
+  const [email, setEmail] = useState<string>("");
   const [loading, setLoading] = useState<boolean>(false);
   const [waiting, setWaiting] = useState<boolean>(false);
-  const [txStatus, setTxStatus] = useState<string>("pending");
-  const [carrier, setCarrier] = useState<ReturnType<typeof carrierFromMsisdn>>("Unknown");
+  const [resumed, setResumed] = useState<boolean>(false);
+  const { status: txStatus, watch } = useTransactionStatus({ baseUrl: statusBaseUrl });
+  const [carrier, setCarrier] = useState<string>("Unknown");
+  /** Payer's own pick when the prefix guess is wrong (ported numbers) */
+  const [providerOverride, setProviderOverride] = useState<string | null>(null);
+  const provider = providerOverride ?? (carrier !== "Unknown" ? carrier : null);
+  const phoneValid = !!normalizeMsisdn(phone, plan.country);
 
   const fixedAmountMode =
     !startAtAmount && typeof initialAmount === "number" && initialAmount > 0;
 
   const formattedAmount = useMemo(
-    () => (amount > 0 ? `UGX ${amount.toLocaleString()}` : ""),
-    [amount]
+    () => (amount > 0 ? formatMoney(amount, currency.code, intl) : ""),
+    [amount, currency.code, intl]
+  );
+  const money = (n: number) => formatMoney(n, currency.code, intl);
+
+  /** Schema messages are English; show the first failing field in the UI language */
+  const localizeError = (errors: FieldErrors) => {
+    const field = Object.keys(errors)[0];
+    switch (field) {
+      case "amount":
+        return t("form.error.amount", { min: money(min), max: money(max) });
+      case "mobile":
+        return t("form.error.mobile", {
+          country: regionName(plan.country, locale),
+          example: plan.placeholder,
+        });
+      case "accountName":
+        return t("form.error.accountName");
+      case "email":
+        return t("form.error.email");
+      case "provider":
+        return t("form.error.provider");
+      case "handle":
+        return t("form.missingRecipient");
+      default:
+        return firstError(errors);
+    }
+  };
+
+  const feeQuote = useMemo(
+    () =>
+      provider && amount > 0
+        ? quoteFee(amount, { country: plan.country, provider, currency: currency.code })
+        : null,
+    [amount, provider, plan.country, currency.code]
   );
 
   useEffect(() => {
-    setCarrier(carrierFromMsisdn(normalizeUgMobile(phone)));
-  }, [phone]);
+    setCarrier(carrierFromMsisdn(normalizeMsisdn(phone, plan.country)));
+    setProviderOverride(null);
+  }, [phone, plan.country]);
 
   const submitAmount = (e: FormEvent) => {
     e.preventDefault();
     if (fixedAmountMode) return setStep("phone");
-    if (!amount || amount < minAmount || amount > maxAmount) {
-      toast.error(
-        `Enter a valid amount between UGX ${minAmount.toLocaleString()} and UGX ${maxAmount.toLocaleString()}`
-      );
+    const checked = amountField(currency.code, { min, max })(amount);
+    if ("error" in checked) {
+      toast.error(localizeError({ amount: checked.error }));
       return;
     }
     setStep("phone");
@@ -218,146 +185,240 @@ export default function Form({
     e.preventDefault();
     if (loading || waiting) return;
 
-    const normalized = normalizeUgMobile(phone);
-    if (!normalized) {
-      toast.error("Please enter a valid Ugandan mobile number (e.g. 07XXXXXXXX)");
+    const checked = msisdnField(plan.country)(phone);
+    if ("error" in checked) {
+      toast.error(localizeError({ mobile: checked.error }));
+      return;
+    }
+    if (!provider) {
+      toast.error(t("form.chooseNetwork"));
       return;
     }
 
     setLoading(true);
-    const fetched = await fetchGutoName(normalized);
+    const fetched = await fetchGutoName(checked.value, plan.country);
     setLoading(false);
 
     if (fetched) {
       setAccountName(fetched);
-      toast.success(`Found account name: ${fetched}`);
+      toast.success(t("form.foundName", { name: fetched }));
     } else {
       setAccountName("");
-      toast.message("We couldn't fetch a name", { description: "You can type it manually." });
+      toast.message(t("form.noName"), { description: t("form.noNameHint") });
     }
     setStep("account");
   };
 
+  /** Shared tail of a fresh or resumed payment once its outcome is known */
+  const settle = useCallback(
+    async (
+      result: TransactionOutcome,
+      info: Omit<PaidReceipt, "paidAtIso"> & { transactionId: string; paidAtIso?: string | null }
+    ) => {
+      setWaiting(false);
+      setResumed(false);
+      if (handle && result !== "timeout") clearPendingPayment(handle);
+
+      if (result === "paid") {
+        onSuccessChange?.(true);
+        toast.success(t("form.paymentConfirmed"));
+
+        // Server re-checks the status before emailing payer/recipient
+        fetch("/api/receipts", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ transactionId: info.transactionId }),
+        }).catch((e) => console.error("❗ receipt error:", e));
+
+        const { transactionId: _id, paidAtIso, ...receipt } = info;
+        onPaid?.({ ...receipt, paidAtIso: paidAtIso ?? new Date().toISOString() });
+
+        setTimeout(() => {
+          confetti({ particleCount: 100, spread: 70, origin: { y: 0.6 } });
+        }, 120);
+      } else if (result === "failed") {
+        toast.error(t("form.paymentFailed"));
+      } else {
+        toast.error(t("form.timeout"));
+      }
+    },
+    [handle, onPaid, onSuccessChange, t]
+  );
+
+  // Reopening the paylink with a payment still in flight: show its live status
+  useEffect(() => {
+    if (!handle) return;
+    const stored = loadPendingPayment(handle);
+    if (!stored) return;
+
+    let cancelled = false;
+    (async () => {
+      const res = await fetch(`/api/payments/${encodeURIComponent(stored.tx)}`, { cache: "no-store" })
+        .catch(() => null);
+      if (cancelled || !res) return;
+      if (!res.ok) {
+        if (res.status === 404) clearPendingPayment(handle);
+        return;
+      }
+
+      const entry = await res.json().catch(() => null);
+      if (cancelled || !entry?.transactionId) return;
+      if (["failed", "error", "cancelled", "reversed"].includes(entry.state)) {
+        clearPendingPayment(handle);
+        return;
+      }
+
+      const info = {
+        amount: entry.amount,
+        currency: entry.currency,
+        tx: entry.tx,
+        transactionId: entry.transactionId,
+        providerTx: entry.providerTx ?? entry.transactionId,
+        // the API masks numbers; the stored attempt has the payer's own
+        payerMsisdn: stored.payerMsisdn,
+        recipientMsisdn: "",
+        recipientName: entry.recipientName || recipientName || "",
+        invoiceNumber: entry.invoiceNumber,
+        memo: entry.memo,
+        paidAtIso: entry.paidAtIso,
+      };
+
+      setAmount(entry.amount);
+      setStep("account");
+      if (entry.state === "paid") {
+        await settle("paid", info);
+        return;
+      }
+
+      setResumed(true);
+      setWaiting(true);
+      const result = await watch(entry.transactionId);
+      if (!cancelled) await settle(result, info);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [handle]);
+
   const submitAccount = async (e: FormEvent) => {
     e.preventDefault();
     if (loading || waiting) return;
 
-    const normalizedPayer = normalizeUgMobile(phone);
-    const normalizedRecipient = recipientMobile ? normalizeUgMobile(recipientMobile) : null;
-
-    if (!normalizedPayer) {
-      toast.error("Please enter a valid Ugandan mobile number (e.g. 07XXXXXXXX)");
-      return;
-    }
-    if (!amount || amount < minAmount) {
-      toast.error(`Amount must be at least UGX ${minAmount.toLocaleString()}`);
-      return;
-    }
-    if (!accountName.trim()) {
-      toast.error("Please enter the account name");
+    if (!handle) {
+      toast.error(t("form.missingRecipient"));
       return;
     }
-    if (!gutokey) {
-      toast.error("Missing account reference (gutokey). Please try again later.");
-      return;
-    }
-    if (!normalizedRecipient) {
-      toast.error("Missing recipient number. Please try again later.");
+
+    // Same schema the /api/pay route applies; the server resolves the recipient
+    const parsed = paySchemaFor(plan.country, currency.code)({
+      amount,
+      mobile: phone,
+      handle,
+      accountName,
+      email,
+      provider: provider ?? undefined,
+      terms: terms && signedTermsParams(terms),
+    });
+    if (!parsed.success) {
+      toast.error(localizeError(parsed.errors));
       return;
     }
-
-    const tx = txRef.current;
+    const payload = parsed.data;
+    const normalizedPayer = payload.mobile;
+
+    // Reuse the key of an unfinished attempt for the same payment, so the
+    // server replays it instead of sending a second prompt
+    const stored = loadPendingPayment(handle);
+    const tx =
+      stored && stored.amount === payload.amount && stored.payerMsisdn === normalizedPayer
+        ? stored.tx
+        : uuidv4();
+    const pending = {
+      tx,
+      handle,
+      amount: payload.amount,
+      payerMsisdn: normalizedPayer,
+      transactionId: stored?.tx === tx ? stored.transactionId : null,
+      createdAt: stored?.tx === tx ? stored.createdAt : Date.now(),
+    };
+    savePendingPayment(pending);
 
     try {
       setLoading(true);
 
-      const payload = {
-        mobile: normalizedPayer,
-        amount,
-        memo: `Deposit for ${gutokey}`,
-        gutokey,
-        recipient: normalizedRecipient,
-        tx, // local UUID
-        recipient_name: accountName || recipientName || "",
-        direction,
-        country,
-      };
-
-      const res = await fetch("https://api.guto.app/api/pay", {
+      const res = await fetch("/api/pay", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        headers: { "Content-Type": "application/json", "Idempotency-Key": tx },
+        body: JSON.stringify({
+          ...payload,
+          terms: payload.terms && signedTermsParams(payload.terms),
+        }),
       });
 
       if (!res.ok) {
-        let msg = `HTTP error ${res.status}`;
-        try { msg += `: ${await res.text()}`; } catch {}
-        throw new Error(msg);
+        const body = await res.json().catch(() => null);
+        // Drop the key only when the server refused before any prompt was pushed.
+        // On 409 (still in flight) and 5xx the gateway may have the payment, so a
+        // retry must reuse the key and get the server's replay, not a second charge.
+        if (REJECTED_STATUSES.includes(res.status) || (res.status === 429 && body?.challenge)) {
+          clearPendingPayment(handle);
+        }
+        if (res.status === 400 && body?.fields) {
+          throw new Error(localizeError(body.fields));
+        }
+        if (res.status === 410) throw new Error(t("hero.linkExpired", { name: recipientName ?? "" }));
+        // 429 with `challenge`: the server holds risky attempts for a cooldown
+        if (res.status === 429 && body?.challenge) {
+          const minutes = Math.max(1, Math.ceil(Number(body.retryAfter ?? 0) / 60));
+          throw new Error(t("form.riskCooldown", { minutes }));
+        }
+        throw new Error(body?.error ?? `HTTP error ${res.status}`);
       }
 
       const data = await res.json().catch(() => ({} as any));
+      const recipientMsisdn: string = (data as any)?.recipient ?? "";
       const munopay = (data as any)?.munopay ?? {};
       const status = String(munopay?.status ?? "unknown").toLowerCase();
 
       if (status !== "success") {
-        const message = munopay?.message ?? "Request not accepted by gateway.";
-        throw new Error(`Send failed: ${message}`);
+        clearPendingPayment(handle);
+        const message = munopay?.message ?? t("form.notAccepted");
+        throw new Error(t("form.sendFailed", { message }));
       }
 
       // Prefer a provider-level reference if present
       const providerTxId: string | null =
         munopay?.provider_reference ?? munopay?.transaction_id ?? null;
+      const transactionId = String(munopay?.transaction_id);
+      savePendingPayment({ ...pending, transactionId });
 
       // Move into "waiting for callback" mode — DO NOT mark success yet.
       setWaiting(true);
-      setTxStatus("pending");
-      toast.message("Request sent. Waiting for mobile money confirmation…", {
-        description: "Approve the prompt on your phone to complete the payment.",
+      toast.message(t("form.requestSent"), {
+        description: t("form.approvePrompt"),
         duration: 5000,
       });
 
-      // Poll by gateway transaction id (as requested)
-      const ctrl = new AbortController();
-      const statusUrl = `${statusBaseUrl.replace(/\/+$/, "")}/${encodeURIComponent(
-        munopay?.transaction_id
-      )}`;
-
-      const result = await pollUntilPaid({
-        statusUrl,
-        intervalMs: 3000,
-        maxIntervalMs: 7000,
-        timeoutMs: 180_000,
-        signal: ctrl.signal,
-        onTick: (s) => s && setTxStatus(s),
-      });
-
-      setWaiting(false);
+      // Follow the gateway transaction id (SSE, falling back to polling)
+      const result = await watch(transactionId);
 
-      if (result === "paid") {
-        onSuccessChange?.(true);
-        toast.success("Payment confirmed!");
-
-        onPaid?.({
-          amount,
-          tx,                                   // your local UUID
-          providerTx: providerTxId,             // gateway ref if available
-          paidAtIso: new Date().toISOString(),
-          payerMsisdn: normalizedPayer,
-          recipientMsisdn: normalizedRecipient!,
-          recipientName: accountName || recipientName || "",
-        });
-
-        setTimeout(() => {
-          confetti({ particleCount: 100, spread: 70, origin: { y: 0.6 } });
-        }, 120);
-      } else if (result === "failed") {
-        toast.error("Payment failed. If you were charged, please contact support.");
-      } else {
-        toast.error("We didn’t receive a confirmation in time. You can retry.");
-      }
+      await settle(result, {
+        amount,
+        currency: currency.code,
+        tx,
+        transactionId,
+        providerTx: providerTxId,
+        payerMsisdn: normalizedPayer,
+        recipientMsisdn,
+        recipientName: accountName || recipientName || "",
+        invoiceNumber: payload.terms?.invoice ?? null,
+        memo: payload.terms?.memo ?? null,
+      });
     } catch (err: any) {
       console.error("❗ Pay error:", err);
-      toast.error(err?.message || "Failed to initiate payment. Please try again.");
+      toast.error(err?.message || t("form.initiateFailed"));
     } finally {
       setLoading(false);
     }
@@ -367,6 +428,14 @@ export default function Form({
 
   return (
     <div className="w-full relative">
+      {resumed && (
+        <div
+          className="mb-3 rounded-[12px] border border-[#009e4f]/40 bg-[#009e4f]/10 px-4 py-3 text-sm text-foreground"
+          role="status"
+        >
+          {t("form.resumed")}
+        </div>
+      )}
       <AnimatePresence mode="wait">
         {step === "amount" && (
           <motion.form
@@ -378,17 +447,18 @@ export default function Form({
             className="flex items-stretch justify-end relative gap-2"
           >
             <label htmlFor="amount-input" className="sr-only">
-              Amount (UGX)
+              {t("form.amountLabel", { currency: currency.code })}
             </label>
             <input
               id="amount-input"
               type="number"
-              inputMode="numeric"
-              min={minAmount}
-              max={maxAmount}
+              inputMode={currency.minorUnits ? "decimal" : "numeric"}
+              step={10 ** -currency.minorUnits}
+              min={min}
+              max={max}
               value={fixedAmountMode ? initialAmount : amount || ""}
               onChange={(e) => !fixedAmountMode && setAmount(Number(e.target.value))}
-              placeholder="Enter amount"
+              placeholder={t("form.enterAmount")}
               className={`flex-grow bg-background font-bold text-lg border border-border text-foreground px-4 py-3 rounded-[12px] focus:outline-1 transition-all duration-300 focus:outline-offset-4 focus:outline-[#009e4f] ${
                 fixedAmountMode ? "pointer-events-none opacity-80" : ""
               }`}
@@ -400,7 +470,7 @@ export default function Form({
               className="absolute font-semibold top-0 bottom-0 bg-[#009e4f] flex justify-center items-center cursor-pointer text-white dark:text-black px-5 py-2 m-2 rounded-[12px] hover:bg-opacity-90 transition-all disabled:opacity-50"
               disabled={disabledAll || (!fixedAmountMode && (!amount || amount <= 0))}
             >
-              Continue
+              {t("form.continue")}
             </button>
           </motion.form>
         )}
@@ -415,7 +485,7 @@ export default function Form({
             className="flex items-stretch justify-end relative"
           >
             <label htmlFor="phone-input" className="sr-only">
-              Phone Number
+              {t("form.phoneLabel")}
             </label>
             <input
               id="phone-input"
@@ -425,7 +495,7 @@ export default function Form({
               inputMode="tel"
               value={phone}
               onChange={(e) => setPhone(e.target.value)}
-              placeholder="07XXXXXXXX"
+              placeholder={plan.placeholder}
               className="flex-grow bg-background font-bold text-lg border border-border text-foreground px-4 py-3 rounded-[12px] focus:outline-1 transition-all duration-300 focus:outline-offset-4 focus:outline-[#009e4f]"
               disabled={disabledAll}
               required
@@ -435,7 +505,7 @@ export default function Form({
               className="absolute font-semibold top-0 bottom-0 bg-[#009e4f] flex justify-center items-center cursor-pointer text-white dark:text-black px-5 py-2 m-2 rounded-[12px] hover:bg-opacity-90 transition-all disabled:opacity-50"
               disabled={disabledAll}
             >
-              {loading ? "Checking..." : "Continue"}
+              {loading ? t("form.checking") : t("form.continue")}
             </button>
           </motion.form>
         )}
@@ -447,47 +517,73 @@ export default function Form({
             initial={{ opacity: 0, x: 16 }}
             animate={{ opacity: 1, x: 0 }}
             exit={{ opacity: 0, x: 16 }}
-            className="flex items-stretch justify-end relative"
+            className="flex flex-col gap-2"
           >
-            <label htmlFor="account-input" className="sr-only">
-              Account Name
+            {feeQuote && (
+              <dl className="rounded-[12px] border border-border px-4 py-3 text-sm grid grid-cols-2 gap-y-1">
+                <dt className="text-muted-foreground">{t("form.feeAmount")}</dt>
+                <dd className="text-right font-semibold">{money(feeQuote.amount)}</dd>
+                <dt className="text-muted-foreground">{t("form.feeEstimate", { provider: feeQuote.provider })}</dt>
+                <dd className="text-right font-semibold">{money(feeQuote.fee)}</dd>
+                <dt className="font-semibold">{t("form.feeTotal")}</dt>
+                <dd className="text-right font-extrabold">{money(feeQuote.total)}</dd>
+              </dl>
+            )}
+            <div className="flex items-stretch justify-end relative">
+              <label htmlFor="account-input" className="sr-only">
+                {t("form.accountName")}
+              </label>
+              <input
+                id="account-input"
+                type="text"
+                name="accountName"
+                autoComplete="name"
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+                placeholder={t("form.accountName")}
+                className="flex-grow bg-background border font-bold text-lg border-border text-foreground px-4 py-3 rounded-[12px] focus:outline-1 transition-all duration-300 focus:outline-offset-4 focus:outline-[#009e4f]"
+                disabled={disabledAll}
+                required
+              />
+              <button
+                type="submit"
+                className="absolute font-semibold top-0 bottom-0 bg-[#009e4f] flex justify-center items-center cursor-pointer text-white dark:text-black px-5 py-2 m-2 rounded-[12px] hover:bg-opacity-90 transition-all disabled:opacity-50"
+                disabled={disabledAll}
+              >
+                {(loading || waiting) ? (
+                  <span className="flex items-center">
+                    <svg
+                      className="animate-spin -ml-1 mr-2 h-4 w-4 text-white dark:text-black"
+                      xmlns="http://www.w3.org/2000/svg"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      aria-hidden="true"
+                    >
+                      <title>{t("form.loading")}</title>
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                    </svg>
+                    {waiting ? t("form.waiting") : t("form.sending")}
+                  </span>
+                ) : (
+                  <span>{t("form.pay")}</span>
+                )}
+              </button>
+            </div>
+            <label htmlFor="email-input" className="sr-only">
+              {t("form.emailLabel")}
             </label>
             <input
-              id="account-input"
-              type="text"
-              name="accountName"
-              autoComplete="name"
-              value={accountName}
-              onChange={(e) => setAccountName(e.target.value)}
-              placeholder="Account Name"
-              className="flex-grow bg-background border font-bold text-lg border-border text-foreground px-4 py-3 rounded-[12px] focus:outline-1 transition-all duration-300 focus:outline-offset-4 focus:outline-[#009e4f]"
+              id="email-input"
+              type="email"
+              name="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder={t("form.emailLabel")}
+              className="bg-background border text-sm border-border text-foreground px-4 py-2 rounded-[12px] focus:outline-1 transition-all duration-300 focus:outline-offset-4 focus:outline-[#009e4f]"
               disabled={disabledAll}
-              required
             />
-            <button
-              type="submit"
-              className="absolute font-semibold top-0 bottom-0 bg-[#009e4f] flex justify-center items-center cursor-pointer text-white dark:text-black px-5 py-2 m-2 rounded-[12px] hover:bg-opacity-90 transition-all disabled:opacity-50"
-              disabled={disabledAll}
-            >
-              {(loading || waiting) ? (
-                <span className="flex items-center">
-                  <svg
-                    className="animate-spin -ml-1 mr-2 h-4 w-4 text-white dark:text-black"
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    aria-hidden="true"
-                  >
-                    <title>Loading spinner</title>
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                  </svg>
-                  {waiting ? "Waiting…" : "Sending..."}
-                </span>
-              ) : (
-                <span>Pay</span>
-              )}
-            </button>
           </motion.form>
         )}
       </AnimatePresence>
@@ -500,23 +596,48 @@ export default function Form({
         <div className="flex-1">
           {step === "amount" &&
             (fixedAmountMode
-              ? `Amount: UGX ${Number(initialAmount).toLocaleString()} (fixed)`
-              : `Enter an amount between UGX ${minAmount.toLocaleString()} and UGX ${maxAmount.toLocaleString()}.`)}
-          {step !== "amount" && formattedAmount && `Amount: ${formattedAmount}`}
+              ? t("form.amountFixed", { amount: money(Number(initialAmount)) })
+              : t("form.amountRange", { min: money(min), max: money(max) }))}
+          {step !== "amount" && formattedAmount && t("form.amountSummary", { amount: formattedAmount })}
           {waiting && (
             <span className="ml-1">
-              • Status: {["pending", "approved"].includes(String(txStatus || "").toLowerCase())
-                ? "waiting for approval"
-                : txStatus}
+              • {t("form.status", {
+                status: ["pending", "approved"].includes(String(txStatus || "").toLowerCase())
+                  ? t("form.statusWaiting")
+                  : String(txStatus ?? ""),
+              })}
             </span>
           )}
         </div>
-        <div className="flex items-center gap-2">
-          {/* eslint-disable-next-line @next/next/no-img-element */}
-          <img src="/mtn.png" alt="MTN" className="h-5 w-auto" />
-          {/* eslint-disable-next-line @next/next/no-img-element */}
-          <img src="/airtel.png" alt="Airtel" className="h-5 w-auto" />
-        </div>
+        {step === "phone" && phoneValid ? (
+          <label className="flex items-center gap-2">
+            <span>{t("form.network")}</span>
+            <select
+              value={provider ?? ""}
+              onChange={(e) => setProviderOverride(e.target.value || null)}
+              className="bg-background border border-border rounded-[8px] px-2 py-1 text-foreground"
+              disabled={disabledAll}
+            >
+              {!provider && <option value="">{t("form.chooseOption")}</option>}
+              {plan.carriers.map((c) => (
+                <option key={c.name} value={c.name}>
+                  {c.name === carrier ? t("form.detected", { name: c.name }) : c.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <div className="flex items-center gap-2">
+            {plan.carriers.map((c) =>
+              c.logo ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img key={c.name} src={c.logo} alt={c.name} className="h-5 w-auto" />
+              ) : (
+                <span key={c.name} className="font-semibold">{c.name}</span>
+              )
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
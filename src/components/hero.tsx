@@ -7,24 +7,15 @@ import Form from "./form";
 import Link from "next/link";
 import { CheckIcon } from "lucide-react";
 
-export type UserProfile = {
-  name: string;
-  gutokey: string;
-  phone: string;
-  handle?: string;
-  avatarUrl?: string;
-  verified?: boolean;
-};
-
-type PaidReceipt = {
-  amount: number;
-  tx: string;
-  providerTx?: string | null;
-  paidAtIso: string;
-  payerMsisdn: string;        // normalized "2567XXXXXXXX"
-  recipientMsisdn: string;    // normalized "2567XXXXXXXX"
-  recipientName: string;
-};
+import { currencyForCountry, formatMoney, getCurrency } from "~/lib/currency";
+import { getNumberingPlan } from "~/lib/msisdn";
+import { buildPaylink } from "~/lib/paylink";
+import { type PaylinkTermsState, signedTermsParams } from "~/lib/paylink-signing";
+import { qrSvg } from "~/lib/qr";
+import { regionName } from "~/lib/i18n";
+import type { UserProfile } from "~/lib/profile";
+import { type PaidReceipt, buildReceiptSVG, fmtDate, truncateRef } from "~/lib/receipt";
+import { useI18n } from "~/providers/i18n-provider";
 
 /* ───────── helpers ───────── */
 function initialFrom(name: string) {
@@ -38,21 +29,6 @@ function normalizeHandle(handle?: string, name?: string) {
     "user";
   return "@" + base;
 }
-function buildPaylink(handle: string, amount?: number) {
-  const cleanHandle = handle.replace(/^@/, "");
-  const url = new URL(`https://pay.guto.app/@${cleanHandle}`);
-  if (amount && amount > 0) url.searchParams.set("a", String(amount));
-  return url.toString();
-}
-function fmtDate(d: Date) {
-  return d.toLocaleString(undefined, {
-    year: "numeric",
-    month: "short",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-}
 function encodeSVG(svg: string) {
   return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
 }
@@ -73,154 +49,88 @@ async function svgToPngBlob(svg: string, width: number, height: number): Promise
   return blob;
 }
 
-function truncateRef(s?: string | null, max = 15) {
-  if (!s) return "";
-  return s.length > max ? s.slice(0, max) + "…" : s;
-}
-
-/** Build a white card on green background (no “To” phone; refs truncated to 15) */
-function buildReceiptSVG(opts: {
-  amountText: string;
-  recipientName: string;
-  handle: string;
-  paylink: string;
-  tx: string;
-  providerTx?: string | null;
-  paidAt: string;
-  payerMsisdn: string;
-  brand: { name: string; green: string };
-}) {
-  const {
-    amountText, recipientName, handle, paylink, tx, providerTx, paidAt,
-    payerMsisdn, brand
-  } = opts;
-
-  const txShort = truncateRef(tx, 15);
-  const providerShort = truncateRef(providerTx ?? "", 15);
-
-
-return `
-<svg width="1080" height="1080" viewBox="0 0 1080 1080" xmlns="http://www.w3.org/2000/svg">
-  <defs>
-    <linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
-      <stop offset="0%" stop-color="${brand.green}"/>
-      <stop offset="100%" stop-color="#0a8a46"/>
-    </linearGradient>
-    <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
-      <feDropShadow dx="0" dy="14" stdDeviation="18" flood-color="rgba(0,0,0,0.25)"/>
-    </filter>
-    <pattern id="dots" x="0" y="0" width="20" height="20" patternUnits="userSpaceOnUse">
-      <circle cx="1.2" cy="1.2" r="1.2" fill="rgba(255,255,255,0.12)"/>
-    </pattern>
-  </defs>
-
-  <!-- GREEN BACKGROUND -->
-  <rect width="1080" height="1080" fill="url(#g)"/>
-  <rect width="1080" height="1080" fill="url(#dots)"/>
- <g transform="translate(90,120)" filter="url(#shadow)">
-    <rect x="0" y="0" width="900" height="820" rx="28" fill="#ffffff" stroke="#e5e7eb"/>
-
-    <!-- Header (no check icon) -->
-    <g transform="translate(40,48)">
-      <text x="0" y="38" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="40" font-weight="900" fill="#111827">Payment Receipt</text>
-      <rect x="0" y="48" width="265" height="8" fill="${brand.green}" rx="4"/>
-    </g>
-
-    <!-- Amount -->
-    <g transform="translate(40,150)">
-      <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="28" fill="#6b7280">Amount</text>
-      <text y="84" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="96" font-weight="900" fill="#111827">${amountText}</text>
-    </g>
-
-    <!-- Recipient -->
-    <g transform="translate(40,320)">
-      <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="28" fill="#6b7280">Recipient</text>
-      <text y="46" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="44" font-weight="800" fill="#111827">${recipientName}</text>
-      <text y="86" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="28" fill="#374151">${handle}</text>
-    </g>
-
-    <!-- Meta -->
-    <g transform="translate(40,460)">
-      <g>
-        <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="24" fill="#6b7280">Paid at</text>
-        <text y="36" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="30" font-weight="700" fill="#111827">${paidAt}</text>
-      </g>
-      <g transform="translate(420,0)">
-        <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="24" fill="#6b7280">Reference</text>
-        <text y="36" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="30" font-weight="700" fill="#111827">${txShort}</text>
-      </g>
-      ${providerShort ? `
-      <g transform="translate(0,90)">
-        <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="24" fill="#6b7280">Provider Ref</text>
-        <text y="36" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="30" font-weight="700" fill="#111827">${providerShort}</text>
-      </g>` : ``}
-    </g>
-
-    <!-- Parties (hide TO; show only FROM) -->
-    <g transform="translate(40,630)">
-      <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="24" fill="#6b7280">From</text>
-      <text y="34" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="28" fill="#111827">+${payerMsisdn}</text>
-    </g>
-
-    <!-- Paylink -->
-    <g transform="translate(40,720)">
-      <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="22" fill="#6b7280">Paylink</text>
-      <text y="30" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="26" fill="#111827">${paylink}</text>
-    </g>
-  </g>
-
-  <!-- PAID badge -->
-  <g transform="translate(0,0)">
-    <g transform="translate(540,160) rotate(-18)">
-      <rect x="-170" y="-40" width="340" height="80" rx="16" fill="#ffffff" opacity="0.18" stroke="#ffffff" stroke-width="3"/>
-      <text text-anchor="middle" dominant-baseline="middle" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="48" font-weight="900" fill="${brand.green}">PAID</text>
-    </g>
-  </g>
-
-  <!-- Footer -->
-  <text x="540" y="1040" text-anchor="middle" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="22" fill="rgba(255,255,255,0.85)">Powered by ${brand.name}</text>
-</svg>
-`;
-}
-
-
 /* ───────── component ───────── */
 export default function Hero({
   user,
   initialAmount,
+  paylinkTerms,
+  isOwner = false,
 }: {
   user: UserProfile;
+  /** ?a= from the URL; locked only when the signed terms carry it */
   initialAmount?: number;
+  /** Signed terms from the URL, already checked on the server */
+  paylinkTerms?: PaylinkTermsState;
+  /** The signed-in recipient is viewing their own paylink */
+  isOwner?: boolean;
 }) {
+  const { locale, intl, t } = useI18n();
   const year = useMemo(() => new Date().getFullYear(), []);
   const [isSuccess, setIsSuccess] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [mintedLink, setMintedLink] = useState<string | null>(null);
 
   const [paid, setPaid] = useState<PaidReceipt | null>(null);
   const [receiptPreviewUrl, setReceiptPreviewUrl] = useState<string | null>(null);
   const [receiptPngUrl, setReceiptPngUrl] = useState<string | null>(null);
 
   const handle = normalizeHandle(user.handle, user.name);
-  const paylink = useMemo(() => buildPaylink(handle, initialAmount), [handle, initialAmount]);
-
-  const currency = useMemo(
-    () => new Intl.NumberFormat("en-UG", { style: "currency", currency: "UGX", maximumFractionDigits: 0 }),
-    []
+  const plan = getNumberingPlan(user.country);
+  const terms = paylinkTerms?.status === "valid" ? paylinkTerms.terms : undefined;
+  const lockedAmount = terms?.amount;
+  const paylink = useMemo(
+    () => mintedLink ?? buildPaylink(handle, initialAmount, terms && signedTermsParams(terms)),
+    [mintedLink, handle, initialAmount, terms]
   );
 
-  const amountTextPrefill =
-    typeof initialAmount === "number" && initialAmount > 0 ? currency.format(initialAmount) : "—";
-
-      const hasName = !!user?.phone && user.phone.trim().length > 0;
+  const currency = getCurrency(user.currency ?? currencyForCountry(plan.country)).code;
+
+  const amountTextPrefill = lockedAmount ? formatMoney(lockedAmount, currency, intl) : "—";
+
+  // Incomplete profiles have no real name to show; suspended ones do, but take no payments
+  const hasName = user.status !== "incomplete";
+  const canReceive = user.status === "found";
+  // An expired, used or tampered invoice link shows why instead of the form
+  const termsProblem =
+    paylinkTerms?.status === "expired"
+      ? t("hero.linkExpired", { name: user.name })
+      : paylinkTerms?.status === "used"
+      ? t("hero.linkUsed")
+      : paylinkTerms?.status === "invalid"
+      ? t("hero.linkInvalid", { name: user.name })
+      : null;
+  const canPay = canReceive && !termsProblem;
+
+  /** The owner copying an unsigned ?a= link gets a signed one, so the amount can't be edited */
+  const linkToShare = useCallback(async () => {
+    if (!isOwner || terms || mintedLink || !initialAmount) return paylink;
+    try {
+      const res = await fetch("/api/paylinks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ amount: initialAmount }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok || typeof body?.url !== "string") {
+        throw new Error(body?.fields?.amount ?? body?.error ?? `HTTP error ${res.status}`);
+      }
+      setMintedLink(body.url);
+      return body.url as string;
+    } catch (err) {
+      console.error("❗ paylink mint error:", err);
+      return paylink;
+    }
+  }, [isOwner, terms, mintedLink, initialAmount, paylink]);
 
   const handleCopy = useCallback(async () => {
+    const link = await linkToShare();
     try {
-      await navigator.clipboard.writeText(paylink);
+      await navigator.clipboard.writeText(link);
       setCopied(true);
       setTimeout(() => setCopied(false), 1500);
     } catch {
       const el = document.createElement("textarea");
-      el.value = paylink;
+      el.value = link;
       el.setAttribute("readonly", "");
       el.style.position = "absolute";
       el.style.left = "-9999px";
@@ -231,7 +141,7 @@ export default function Hero({
       setCopied(true);
       setTimeout(() => setCopied(false), 1500);
     }
-  }, [paylink]);
+  }, [linkToShare]);
 
   // Build the shareable receipt image when a real paid event arrives
   const buildingRef = useRef(false);
@@ -239,7 +149,7 @@ export default function Hero({
     if (!paid || buildingRef.current) return;
     buildingRef.current = true;
 
-    const amountText = currency.format(paid.amount);
+    const amountText = formatMoney(paid.amount, paid.currency ?? currency, intl);
     const svg = buildReceiptSVG({
       amountText,
       recipientName: user.name,
@@ -247,8 +157,10 @@ export default function Hero({
       paylink,
       tx: paid.tx,
       providerTx: paid.providerTx,
-      paidAt: fmtDate(new Date(paid.paidAtIso)),
+      paidAt: fmtDate(new Date(paid.paidAtIso), undefined, intl),
       payerMsisdn: paid.payerMsisdn,
+      invoiceNumber: paid.invoiceNumber,
+      memo: paid.memo,
       brand: { name: "Guto", green: "#009e4f" },
     });
 
@@ -268,39 +180,76 @@ export default function Hero({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [paid]);
 
+  /** Server-rendered receipt (consistent fonts); null if the server can't render it */
+  const fetchServerReceipt = useCallback(
+    async (format: "png" | "pdf"): Promise<Blob | null> => {
+      if (!paid?.tx) return null;
+      try {
+        const res = await fetch(
+          `/api/receipts/${encodeURIComponent(paid.tx)}?format=${format}&locale=${encodeURIComponent(intl)}`
+        );
+        return res.ok ? await res.blob() : null;
+      } catch {
+        return null;
+      }
+    },
+    [paid?.tx, intl]
+  );
+
+  const downloadBlob = (blob: Blob | string, filename: string) => {
+    const href = typeof blob === "string" ? blob : URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = href;
+    a.download = filename;
+    a.click();
+    if (typeof blob !== "string") setTimeout(() => URL.revokeObjectURL(href), 1000);
+  };
+
   const handleShareReceipt = useCallback(async () => {
     if (!receiptPngUrl) return;
     try {
-      const res = await fetch(receiptPngUrl);
-      const blob = await res.blob();
+      const blob = (await fetchServerReceipt("png")) ?? (await (await fetch(receiptPngUrl)).blob());
       const file = new File([blob], "guto-receipt.png", { type: "image/png" });
       if ((navigator as any).canShare?.({ files: [file] })) {
         await (navigator as any).share({
-          title: "Payment Receipt",
-          text: "Payment completed on Guto.",
+          title: t("hero.shareTitle"),
+          text: t("hero.shareText"),
           files: [file],
         });
       } else {
-        const a = document.createElement("a");
-        a.href = receiptPngUrl;
-        a.download = "guto-receipt.png";
-        a.click();
+        downloadBlob(blob, "guto-receipt.png");
       }
     } catch {
-      const a = document.createElement("a");
-      a.href = receiptPngUrl!;
-      a.download = "guto-receipt.png";
-      a.click();
+      downloadBlob(receiptPngUrl, "guto-receipt.png");
     }
-  }, [receiptPngUrl]);
+  }, [receiptPngUrl, fetchServerReceipt, t]);
 
-  const handleDownloadReceipt = useCallback(() => {
+  const handleDownloadReceipt = useCallback(async () => {
     if (!receiptPngUrl) return;
-    const a = document.createElement("a");
-    a.href = receiptPngUrl;
-    a.download = "guto-receipt.png";
-    a.click();
-  }, [receiptPngUrl]);
+    const blob = await fetchServerReceipt("png");
+    downloadBlob(blob ?? receiptPngUrl, "guto-receipt.png");
+  }, [receiptPngUrl, fetchServerReceipt]);
+
+  const handleDownloadPdf = useCallback(async () => {
+    const blob = await fetchServerReceipt("pdf");
+    if (blob) downloadBlob(blob, "guto-receipt.pdf");
+  }, [fetchServerReceipt]);
+
+  // QR of the same paylink (fixed amount included), encoded locally
+  const paylinkQr = useMemo(() => qrSvg(paylink, { ecl: "Q", size: 1024 }), [paylink]);
+  const posterHref = `/${handle}/poster${new URL(paylink).search}`;
+
+  const handleDownloadQr = useCallback(
+    async (format: "svg" | "png") => {
+      const filename = `guto-${handle.replace(/^@/, "")}-qr.${format}`;
+      if (format === "svg") {
+        downloadBlob(new Blob([paylinkQr], { type: "image/svg+xml" }), filename);
+      } else {
+        downloadBlob(await svgToPngBlob(paylinkQr, 1024, 1024), filename);
+      }
+    },
+    [handle, paylinkQr]
+  );
 
   return (
     <div className="flex flex-col items-center justify-center gap-8 px-4 py-10">
@@ -314,29 +263,28 @@ export default function Hero({
             <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-[#009e4f] opacity-75" />
             <span className="relative inline-flex rounded-full h-2 w-2 bg-[#009e4f]" />
           </span>
-          <p className="uppercase text-xs font-medium tracking-wide">available in Uganda</p>
+          <p className="uppercase text-xs font-medium tracking-wide">{t("hero.availableIn", { country: regionName(plan.country, locale) })}</p>
         </div>
       </div>
 
       {/* Profile header */}
-       {/* Profile header */}
       <div className="flex flex-col items-center text-center gap-3 max-w-2xl">
-        <div className="h-20 w-20 rounded-full bg-muted overflow-hidden flex items-center justify-center text-xl font-semibold" aria-label={`${hasName ? user.name : "Unknown"} avatar`}>
+        <div className="h-20 w-20 rounded-full bg-muted overflow-hidden flex items-center justify-center text-xl font-semibold" aria-label={t("hero.avatar", { name: hasName ? user.name : t("hero.unknownUser") })}>
           {user.avatarUrl ? (
             // eslint-disable-next-line @next/next/no-img-element
-            <img src={user.avatarUrl} alt={`${hasName ? user.name : "User"} avatar`} className="h-full w-full object-cover" />
+            <img src={user.avatarUrl} alt={t("hero.avatar", { name: hasName ? user.name : t("hero.unknownUser") })} className="h-full w-full object-cover" />
           ) : (
             initialFrom(user.name || "?")
           )}
         </div>
         <div className="flex items-center gap-2">
-          <h1 className="text-2xl font-bold">{hasName ? user.name : "Profile not available"}</h1>
+          <h1 className="text-2xl font-bold">{hasName ? user.name : t("hero.profileUnavailable")}</h1>
           {hasName && user.verified && (
-            <span className="inline-flex items-center gap-1 text-primary text-sm" aria-label="Verified account">
+            <span className="inline-flex items-center gap-1 text-primary text-sm" aria-label={t("hero.verifiedAccount")}>
               <svg viewBox="0 0 24 24" className="h-4 w-4" aria-hidden="true">
                 <path d="M12 2.25 14.3 4l2.7-.2 1.2 2.5 2.5 1.2-.2 2.7 1.8 2.3-1.8 2.3.2 2.7-2.5 1.2-1.2 2.5-2.7-.2L12 21.75 9.7 20l-2.7.2-1.2-2.5-2.5-1.2.2-2.7L1.7 12l1.8-2.3-.2-2.7 2.5-1.2L7 3.8l2.7.2L12 2.25Zm-1.2 12.8 5.2-5.2-1.4-1.4-3.8 3.8-1.6-1.6-1.4 1.4 3 3Z" fill="#009e4f"/>
               </svg>
-              <span className="font-medium">Verified</span>
+              <span className="font-medium">{t("hero.verified")}</span>
             </span>
           )}
         </div>
@@ -350,54 +298,90 @@ export default function Hero({
             onClick={handleCopy}
             className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
             aria-live="polite"
-            aria-label={copied ? "Paylink copied" : "Copy paylink"}
+            aria-label={copied ? t("hero.paylinkCopied") : t("hero.copyPaylink")}
           >
             <svg viewBox="0 0 24 24" className="h-3.5 w-3.5" aria-hidden="true">
               <path d="M16 1H6a2 2 0 0 0-2 2v12h2V3h10V1Zm3 4H10a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h9a2 2 0 0 0 2-2V7a2 2 0 0 0-2-2Zm0 16H10V7h9v14Z" fill="currentColor"/>
             </svg>
-            {copied ? "Copied" : "Copy paylink"}
+            {copied ? t("hero.copied") : t("hero.copyPaylink")}
           </button>
         </div>
 
+        {/* Counter QR: downloads plus a printable poster */}
+        <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-muted-foreground">
+          <button type="button" onClick={() => handleDownloadQr("svg")} className="hover:text-foreground">
+            {t("hero.qrSvg")}
+          </button>
+          <button type="button" onClick={() => handleDownloadQr("png")} className="hover:text-foreground">
+            {t("hero.qrPng")}
+          </button>
+          <Link href={posterHref} target="_blank" className="hover:text-foreground">
+            {t("hero.printPoster")}
+          </Link>
+          {isOwner && (
+            <Link href="/dashboard" className="hover:text-foreground">
+              {t("hero.dashboard")}
+            </Link>
+          )}
+        </div>
+
         <p className="text-sm text-muted-foreground max-w-md">
-          {hasName
-            ? <>You are paying {user.name} securely. Payments are protected and your details stay private.</>
-            : <>This paylink isn’t fully set up yet.</>}
+          {canReceive
+            ? t("hero.payingSecurely", { name: user.name })
+            : hasName
+            ? t("hero.suspended")
+            : t("hero.notSetUp")}
         </p>
       </div>
 
       {/* Title + dynamic subtitle */}
       <div className="flex flex-col items-center justify-center gap-2 max-w-2xl">
-        {typeof initialAmount === "number" && initialAmount > 0 ? (
-          <h2 className="text-4xl font-extrabold text-foreground">{!isSuccess && hasName ? amountTextPrefill : ""}</h2>
+        {lockedAmount ? (
+          <h2 className="text-4xl font-extrabold text-foreground">{!isSuccess && canPay ? amountTextPrefill : ""}</h2>
         ) : (
-          <h2 className="text-2xl font-bold text-foreground">{!isSuccess && hasName ? `Paying ${user.name}` : ""}</h2>
+          <h2 className="text-2xl font-bold text-foreground">{!isSuccess && canPay ? t("hero.paying", { name: user.name }) : ""}</h2>
+        )}
+        {!isSuccess && canPay && terms && (
+          <div className="flex flex-col items-center gap-1 text-sm">
+            {terms.invoice && (
+              <p className="font-semibold text-foreground">{t("hero.invoice", { number: terms.invoice })}</p>
+            )}
+            {terms.memo && <p className="text-foreground text-center max-w-md">{terms.memo}</p>}
+            {terms.expiresAt && (
+              <p className="text-muted-foreground">
+                {t("hero.payBefore", { date: fmtDate(new Date(terms.expiresAt * 1000), undefined, intl) })}
+              </p>
+            )}
+            {terms.singleUse && <p className="text-muted-foreground">{t("hero.singleUse")}</p>}
+          </div>
         )}
         <p className="text-sm text-muted-foreground text-center max-w-md">
           {!isSuccess
-            ? hasName
-              ? (typeof initialAmount === "number" && initialAmount > 0
-                  ? "Confirm the details below to send your secure payment."
-                  : "Enter the amount and details below to send a secure payment.")
-              : "Ask the recipient to finish setting up their Guto profile."
-            : "Payment complete. Share or save your receipt below."}
+            ? canPay
+              ? (lockedAmount
+                  ? t("hero.confirmDetails")
+                  : t("hero.enterDetails"))
+              : hasName
+              ? ""
+              : t("hero.askRecipient")
+            : t("hero.paymentComplete")}
         </p>
       </div>
 
       {/* Payment form */}
-      {!isSuccess && hasName && (
+      {!isSuccess && canPay && (
         <div className="w-full max-w-md">
           <div className="rounded-2xl border bg-card text-card-foreground shadow-sm">
             <div className="p-4 sm:p-6">
               <Form
                 initialAmount={initialAmount}
-                startOnAmount={!(typeof initialAmount === "number" && initialAmount > 0)}
+                startOnAmount={!lockedAmount}
                 onSuccessChange={setIsSuccess}
-                gutokey={user.gutokey}
-                recipientMobile={user.phone}
+                handle={handle}
                 recipientName={user.name}
-                country="UG"
-                direction="paylink"
+                country={plan.country}
+                currency={currency}
+                terms={terms}
                 onPaid={(info) => {
                   setIsSuccess(true);
                   setPaid(info);
@@ -406,7 +390,7 @@ export default function Hero({
             </div>
             <div className="px-4 pb-4 sm:px-6 sm:pb-6 text-xs text-muted-foreground flex items-center justify-between">
               <span>© {year} Guto</span>
-              <span>256-bit SSL • Secure</span>
+              <span>{t("hero.secure")}</span>
             </div>
           </div>
         </div>
@@ -416,7 +400,15 @@ export default function Hero({
       {!isSuccess && !hasName && (
         <div className="w-full max-w-md">
           <div className="rounded-2xl border bg-card text-card-foreground shadow-sm p-4 sm:p-6 text-sm text-muted-foreground">
-            This profile doesn’t have a name yet, so payments are disabled for now.
+            {t("hero.paymentsDisabled")}
+          </div>
+        </div>
+      )}
+
+      {!isSuccess && canReceive && termsProblem && (
+        <div className="w-full max-w-md">
+          <div role="alert" className="rounded-2xl border bg-card text-card-foreground shadow-sm p-4 sm:p-6 text-sm text-muted-foreground">
+            {termsProblem}
           </div>
         </div>
       )}
@@ -430,15 +422,15 @@ export default function Hero({
               <div className="h-8 w-8 rounded-full  text-[#009e4f] flex items-center justify-center">
                 <CheckIcon className="h-5 w-5 border-grey/40" />
               </div>
-              <h3 className="text-lg font-semibold">Payment receipt</h3>
+              <h3 className="text-lg font-semibold">{t("hero.receiptTitle")}</h3>
             </div>
 
             <div className="rounded-xl overflow-hidden ring-1 ring-white/30 bg-white">
               {receiptPreviewUrl ? (
                 // eslint-disable-next-line @next/next/no-img-element
-                <img src={receiptPreviewUrl} alt="Receipt preview" className="w-full h-auto" />
+                <img src={receiptPreviewUrl} alt={t("hero.receiptPreview")} className="w-full h-auto" />
               ) : (
-                <div className="p-12 text-center text-sm text-[#0b5e32]">Building receipt…</div>
+                <div className="p-12 text-center text-sm text-[#0b5e32]">{t("hero.buildingReceipt")}</div>
               )}
             </div>
 
@@ -449,7 +441,7 @@ export default function Hero({
                 disabled={!receiptPngUrl}
                 className="inline-flex items-center justify-center rounded-xl  bg-[#009e4f] px-4 py-2 text-sm font-semibold disabled:opacity-60"
               >
-                Share image
+                {t("hero.shareImage")}
               </button>
               <button
                 type="button"
@@ -457,11 +449,27 @@ export default function Hero({
                 disabled={!receiptPngUrl}
                 className="inline-flex items-center justify-center rounded-xl border border-grey/40 text-white px-4 py-2 text-sm font-medium disabled:opacity-60"
               >
-                Download PNG
+                {t("hero.downloadPng")}
               </button>
+              <button
+                type="button"
+                onClick={handleDownloadPdf}
+                disabled={!paid?.tx}
+                className="inline-flex items-center justify-center rounded-xl border border-grey/40 text-white px-4 py-2 text-sm font-medium disabled:opacity-60"
+              >
+                {t("hero.downloadPdf")}
+              </button>
+              {paid?.tx && (
+                <Link
+                  href={`/r/${encodeURIComponent(paid.tx)}`}
+                  className="inline-flex items-center justify-center rounded-xl border border-grey/40 text-white px-4 py-2 text-sm font-medium"
+                >
+                  {t("hero.verifiableReceipt")}
+                </Link>
+              )}
               {paid?.tx && (
                 <span className="ml-auto text-xs text-white/90">
-                  Ref: {truncateRef(paid.tx, 15)}
+                  {t("hero.ref", { ref: truncateRef(paid.tx, 15) })}
                 </span>
               )}
             </div>
@@ -484,7 +492,7 @@ export default function Hero({
         </Link>
       </div>
 
-      <span className="sr-only" aria-live="polite">{copied ? "Paylink copied to clipboard" : ""}</span>
+      <span className="sr-only" aria-live="polite">{copied ? t("hero.paylinkCopiedToClipboard") : ""}</span>
     </div>
   );
 }
@@ -0,0 +1,84 @@
+import * as React from 'react';
+import {
+	Body,
+	Button,
+	Container,
+	Head,
+	Hr,
+	Html,
+	Preview,
+	Section,
+	Text,
+	Tailwind,
+} from '@react-email/components';
+
+type LoginEmailProps = {
+	name: string;
+	handle: string;
+	/** One-time /api/auth/callback link; expires after 15 minutes */
+	loginUrl: string;
+};
+
+const LoginEmail = ({ name, handle, loginUrl }: LoginEmailProps) => {
+	const currentYear = new Date().getFullYear();
+	const cleanHandle = handle.replace(/^@/, '');
+
+	return (
+		<Html>
+			<Tailwind>
+				<Head>
+					<title>Sign in to Guto</title>
+					<Preview>Your sign-in link for @{cleanHandle}</Preview>
+					<style>
+						{`
+              @import url('https://fonts.googleapis.com/css2?family=Inter+Tight:wght@400;500;700&display=swap');
+            `}
+					</style>
+				</Head>
+				<Body className="bg-[#009e4f] py-[40px]" style={{ fontFamily: "'Inter Tight', sans-serif" }}>
+					<Container className="bg-white rounded-[16px] mx-auto p-[32px] max-w-[600px]">
+						<Section>
+							<Text className="text-[28px] font-bold text-[#111827] m-0">Sign in to Guto</Text>
+							<Hr className="border-solid border-[#009e4f] border-[3px] my-[12px] w-[120px] ml-0" />
+						</Section>
+
+						<Section>
+							<Text className="text-[16px] leading-[24px] text-[#111827]">Hi {name.split(' ')[0]},</Text>
+							<Text className="text-[16px] leading-[24px] text-[#374151]">
+								Use the button below to manage the paylink @{cleanHandle}. The link works once and expires in 15 minutes.
+							</Text>
+						</Section>
+
+						<Section className="my-[24px] text-center">
+							<Button
+								className="bg-[#009e4f] text-white font-bold py-[12px] px-[24px] rounded-[12px] no-underline text-center box-border"
+								href={loginUrl}
+							>
+								Sign in
+							</Button>
+						</Section>
+
+						<Hr className="border-solid border-[#E5E7EB] my-[24px]" />
+
+						<Section>
+							<Text className="text-[12px] text-[#6B7280] text-center m-0">
+								Didn’t ask to sign in? You can ignore this email.
+							</Text>
+							<Text className="text-[12px] text-[#6B7280] text-center mt-[8px] m-0">
+								© {currentYear} Guto.
+							</Text>
+						</Section>
+					</Container>
+				</Body>
+			</Tailwind>
+		</Html>
+	);
+};
+
+LoginEmail.PreviewProps = {
+	name: 'Guto Paylink',
+	handle: '@gutot6f',
+	loginUrl: 'https://pay.guto.app/api/auth/callback?token=gutot6f.1760000000.0123456789abcdef0123456789abcdef',
+} satisfies LoginEmailProps;
+
+export default LoginEmail;
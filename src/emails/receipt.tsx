@@ -0,0 +1,138 @@
+import * as React from 'react';
+import {
+	Body,
+	Column,
+	Container,
+	Head,
+	Hr,
+	Html,
+	Link,
+	Preview,
+	Row,
+	Section,
+	Text,
+	Tailwind,
+} from '@react-email/components';
+
+import { formatMoney } from '../lib/currency';
+import type { PaidReceipt } from '../lib/receipt';
+
+type PaymentReceiptEmailProps = {
+	receipt: PaidReceipt;
+	handle: string;
+	/** "payer" gets a receipt, "recipient" gets a payment notification */
+	audience: 'payer' | 'recipient';
+	/** Public /r/[tx] page carrying the signed verification code */
+	receiptUrl?: string;
+};
+
+const formatDate = (iso: string) =>
+	new Date(iso).toLocaleString('en-GB', {
+		year: 'numeric',
+		month: 'short',
+		day: '2-digit',
+		hour: '2-digit',
+		minute: '2-digit',
+		timeZone: 'Africa/Kampala',
+	});
+
+const DetailRow = ({ label, value }: { label: string; value: string }) => (
+	<Row className="mb-[8px]">
+		<Column className="text-[14px] text-[#6B7280] w-[40%]">{label}</Column>
+		<Column className="text-[14px] text-[#111827] font-bold text-right">{value}</Column>
+	</Row>
+);
+
+const PaymentReceiptEmail = ({ receipt, handle, audience, receiptUrl }: PaymentReceiptEmailProps) => {
+	const currentYear = new Date().getFullYear();
+	const amount = formatMoney(receipt.amount, receipt.currency);
+	const cleanHandle = handle.replace(/^@/, '');
+	const preview =
+		audience === 'payer'
+			? `You paid ${amount} to ${receipt.recipientName}`
+			: `You received ${amount} from +${receipt.payerMsisdn}`;
+
+	return (
+		<Html>
+			<Tailwind>
+				<Head>
+					<title>Payment receipt</title>
+					<Preview>{preview}</Preview>
+					<style>
+						{`
+              @import url('https://fonts.googleapis.com/css2?family=Inter+Tight:wght@400;500;700&display=swap');
+            `}
+					</style>
+				</Head>
+				<Body className="bg-[#009e4f] py-[40px]" style={{ fontFamily: "'Inter Tight', sans-serif" }}>
+					<Container className="bg-white rounded-[16px] mx-auto p-[32px] max-w-[600px]">
+						<Section>
+							<Text className="text-[28px] font-bold text-[#111827] m-0">
+								{audience === 'payer' ? 'Payment Receipt' : 'Payment Received'}
+							</Text>
+							<Hr className="border-solid border-[#009e4f] border-[3px] my-[12px] w-[120px] ml-0" />
+						</Section>
+
+						<Section className="mt-[16px]">
+							<Text className="text-[14px] text-[#6B7280] m-0">Amount</Text>
+							<Text className="text-[40px] font-bold text-[#111827] m-0">{amount}</Text>
+						</Section>
+
+						<Section className="mt-[24px]">
+							<DetailRow label="Recipient" value={`${receipt.recipientName} (@${cleanHandle})`} />
+							<DetailRow label="From" value={`+${receipt.payerMsisdn}`} />
+							{receipt.invoiceNumber ? (
+								<DetailRow label="Invoice" value={receipt.invoiceNumber} />
+							) : null}
+							{receipt.memo ? <DetailRow label="Memo" value={receipt.memo} /> : null}
+							<DetailRow label="Paid at" value={formatDate(receipt.paidAtIso)} />
+							<DetailRow label="Reference" value={receipt.tx} />
+							{receipt.providerTx ? (
+								<DetailRow label="Provider Ref" value={receipt.providerTx} />
+							) : null}
+						</Section>
+
+						{receiptUrl ? (
+							<Section className="mt-[16px] text-center">
+								<Link href={receiptUrl} className="text-[14px] text-[#009e4f] font-bold underline">
+									View verifiable receipt
+								</Link>
+							</Section>
+						) : null}
+
+						<Hr className="border-solid border-[#E5E7EB] my-[24px]" />
+
+						<Section>
+							<Text className="text-[12px] text-[#6B7280] text-center m-0">
+								Paylink:{' '}
+								<Link href={`https://pay.guto.app/@${cleanHandle}`} className="text-[#009e4f]">
+									pay.guto.app/@{cleanHandle}
+								</Link>
+							</Text>
+							<Text className="text-[12px] text-[#6B7280] text-center mt-[8px] m-0">
+								© {currentYear} Guto. Keep this email for your records.
+							</Text>
+						</Section>
+					</Container>
+				</Body>
+			</Tailwind>
+		</Html>
+	);
+};
+
+PaymentReceiptEmail.PreviewProps = {
+	receipt: {
+		amount: 125000,
+		currency: 'UGX',
+		tx: '6f1c2a4e-0d7b-4b8e-9a51-3c2f8e7d1a90',
+		providerTx: 'MP240915.1234.A56789',
+		paidAtIso: '2025-09-15T09:30:00.000Z',
+		payerMsisdn: '256771234567',
+		recipientMsisdn: '256701234567',
+		recipientName: 'Guto Paylink',
+	},
+	handle: '@gutot6f',
+	audience: 'payer',
+} satisfies PaymentReceiptEmailProps;
+
+export default PaymentReceiptEmail;
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type TransactionOutcome = "paid" | "failed" | "timeout";
+
+const FAILED_STATUSES = ["failed", "cancelled", "reversed", "error"];
+
+function outcomeOf(status: string | undefined): TransactionOutcome | null {
+	if (status === "paid") return "paid";
+	if (status && FAILED_STATUSES.includes(status)) return "failed";
+	return null;
+}
+
+/** Poll the transaction status until api_status === "paid" (or failure/timeout) */
+async function pollUntilPaid(opts: {
+	statusUrl: string;
+	intervalMs?: number;
+	maxIntervalMs?: number;
+	timeoutMs?: number;
+	onTick?: (s: string | undefined) => void;
+	signal?: AbortSignal;
+}): Promise<TransactionOutcome> {
+	const {
+		statusUrl,
+		intervalMs = 3000,
+		maxIntervalMs = 7000,
+		timeoutMs = 180_000,
+		onTick,
+		signal,
+	} = opts;
+
+	const start = Date.now();
+	let backoff = intervalMs;
+
+	const readStatus = async (): Promise<string | undefined> => {
+		const res = await fetch(statusUrl, { cache: "no-store", signal });
+		if (!res.ok) {
+			if (res.status === 404) return "pending"; // not yet in DB; keep waiting
+			return undefined;
+		}
+		const js = await res.json().catch(() => ({}) as any);
+		const s = js?.api_status ?? js?.status;
+		return typeof s === "string" ? s.toLowerCase() : undefined;
+	};
+
+	while (Date.now() - start < timeoutMs) {
+		if (signal?.aborted) return "timeout";
+		let status: string | undefined;
+		try {
+			status = await readStatus();
+		} catch {
+			status = undefined;
+		}
+		onTick?.(status);
+
+		const outcome = outcomeOf(status);
+		if (outcome) return outcome;
+
+		await new Promise((r) => setTimeout(r, backoff));
+		backoff = Math.min(backoff + 1000, maxIntervalMs);
+	}
+	return "timeout";
+}
+
+/**
+ * Follows a transaction's status over SSE (`${baseUrl}/${id}/events`), falling
+ * back to polling `${baseUrl}/${id}` when EventSource is unavailable or the
+ * stream drops. `watch` resolves once the transaction is paid, failed or times out.
+ */
+export function useTransactionStatus({
+	baseUrl = "/api/transactions",
+	timeoutMs = 180_000,
+}: { baseUrl?: string; timeoutMs?: number } = {}) {
+	const [status, setStatus] = useState<string>("pending");
+	const cancelRef = useRef<(() => void) | null>(null);
+
+	const cancel = useCallback(() => {
+		cancelRef.current?.();
+		cancelRef.current = null;
+	}, []);
+
+	useEffect(() => cancel, [cancel]);
+
+	const watch = useCallback(
+		(id: string): Promise<TransactionOutcome> => {
+			cancel();
+			setStatus("pending");
+
+			const base = `${baseUrl.replace(/\/+$/, "")}/${encodeURIComponent(id)}`;
+			const ctrl = new AbortController();
+			const deadline = Date.now() + timeoutMs;
+
+			const poll = () =>
+				pollUntilPaid({
+					statusUrl: base,
+					timeoutMs: Math.max(deadline - Date.now(), 0),
+					signal: ctrl.signal,
+					onTick: (s) => s && setStatus(s),
+				});
+
+			if (typeof window === "undefined" || typeof window.EventSource === "undefined") {
+				cancelRef.current = () => ctrl.abort();
+				return poll();
+			}
+
+			return new Promise<TransactionOutcome>((resolve) => {
+				const es = new EventSource(`${base}/events`);
+				let settled = false;
+
+				const finish = (outcome: TransactionOutcome | Promise<TransactionOutcome>) => {
+					if (settled) return;
+					settled = true;
+					es.close();
+					clearTimeout(timer);
+					resolve(outcome);
+				};
+
+				const timer = setTimeout(() => finish("timeout"), timeoutMs);
+
+				cancelRef.current = () => {
+					ctrl.abort();
+					finish("timeout");
+				};
+
+				es.addEventListener("status", (e) => {
+					let data: { status?: unknown } | null;
+					try {
+						data = JSON.parse((e as MessageEvent).data);
+					} catch {
+						// A frame we can't read: stop trusting the stream and poll instead
+						finish(poll());
+						return;
+					}
+					const s = String(data?.status ?? "").toLowerCase();
+					if (!s) return;
+					setStatus(s);
+					const outcome = outcomeOf(s);
+					if (outcome) finish(outcome);
+				});
+				es.addEventListener("timeout", () => finish("timeout"));
+
+				// Stream refused or dropped for good: carry on by polling
+				es.onerror = () => {
+					if (es.readyState === EventSource.CLOSED) finish(poll());
+				};
+			});
+		},
+		[baseUrl, timeoutMs, cancel]
+	);
+
+	return { status, watch, cancel };
+}
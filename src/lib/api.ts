@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import type { Schema } from "./validation";
+
+/**
+ * Reads and validates a JSON body. On failure returns a ready 400 response with
+ * field-level messages: `{ error, fields: { [key]: message } }`.
+ */
+export async function parseBody<T>(
+  request: Request,
+  schema: Schema<T>
+): Promise<{ data: T; response?: never } | { data?: never; response: NextResponse }> {
+  const body = await request.json().catch(() => undefined);
+  if (body === undefined) {
+    return {
+      response: NextResponse.json({ error: "Invalid JSON body", fields: {} }, { status: 400 }),
+    };
+  }
+
+  const result = schema(body);
+  if (!result.success) {
+    return {
+      response: NextResponse.json(
+        { error: "Invalid request", fields: result.errors },
+        { status: 400 }
+      ),
+    };
+  }
+  return { data: result.data };
+}
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { allowedAvatarUrl, isInternalHost } from "./avatar-host";
+
+describe("avatar hosts", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("refuses loopback, private and link-local addresses and internal names", () => {
+    for (const host of [
+      "127.0.0.1",
+      "10.0.0.5",
+      "172.20.1.1",
+      "192.168.1.10",
+      "169.254.169.254",
+      "[::1]",
+      "localhost",
+      "metadata.google.internal",
+      "printer.local",
+      "intranet",
+    ]) {
+      expect(isInternalHost(host), host).toBe(true);
+    }
+    expect(isInternalHost("cdn.guto.app")).toBe(false);
+    expect(isInternalHost("8.8.8.8")).toBe(false);
+  });
+
+  it("fetches only https URLs on allowlisted hosts", () => {
+    vi.stubEnv("AVATAR_HOSTS", "cdn.guto.app, *.cloudfront.net, 10.0.0.5");
+
+    expect(allowedAvatarUrl("https://cdn.guto.app/a.png")).not.toBeNull();
+    expect(allowedAvatarUrl("https://d1.cloudfront.net/a.png")).not.toBeNull();
+    expect(allowedAvatarUrl("http://cdn.guto.app/a.png")).toBeNull();
+    expect(allowedAvatarUrl("https://evil.example/a.png")).toBeNull();
+    expect(allowedAvatarUrl("https://cdn.guto.app:8443/a.png")).toBeNull();
+    // listed, but still private
+    expect(allowedAvatarUrl("https://10.0.0.5/a.png")).toBeNull();
+  });
+
+  it("defaults to the Guto API host", () => {
+    vi.stubEnv("GUTO_API_URL", "https://api.guto.app");
+
+    expect(allowedAvatarUrl("https://api.guto.app/logos/a.png")).not.toBeNull();
+    expect(allowedAvatarUrl("https://cdn.guto.app/a.png")).toBeNull();
+  });
+});
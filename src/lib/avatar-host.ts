@@ -0,0 +1,73 @@
+import { gutoApiBase } from "./guto";
+
+/**
+ * Which profile logo URLs the server may fetch (the OG image inlines them).
+ * Logos are user-supplied, so only https URLs on an allowlisted host pass:
+ * AVATAR_HOSTS (comma-separated, "*.cdn.example" for subdomains) or, when
+ * unset, the Guto API's own host. Loopback, private and link-local addresses
+ * and internal names are refused even when listed. Hostnames are not resolved
+ * (the edge runtime has no DNS), so the allowlist is what keeps them public.
+ */
+
+function allowedHosts(): string[] {
+  const raw = process.env.AVATAR_HOSTS;
+  if (raw) {
+    return raw
+      .split(",")
+      .map((h) => h.trim().toLowerCase())
+      .filter(Boolean);
+  }
+  try {
+    return [new URL(gutoApiBase()).hostname];
+  } catch {
+    return [];
+  }
+}
+
+function hostAllowed(hostname: string, allowed: string[]) {
+  return allowed.some((entry) =>
+    entry.startsWith("*.") ? hostname.endsWith(entry.slice(1)) : hostname === entry
+  );
+}
+
+/** 0/8, 10/8, 100.64/10, 127/8, 169.254/16, 172.16/12, 192.168/16 and 224/3 */
+function isPrivateIpv4(hostname: string) {
+  const m = hostname.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!m) return false;
+  const [a, b] = [Number(m[1]), Number(m[2])];
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168)
+  );
+}
+
+/** Loopback, private and link-local literals, and names that only resolve inside a network */
+export function isInternalHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  // URL keeps IPv6 literals bracketed; none of them are expected for a CDN
+  if (host.startsWith("[")) return true;
+  if (!host.includes(".")) return true;
+  if (/(^|\.)(localhost|local|internal|lan|home\.arpa)$/.test(host)) return true;
+  return isPrivateIpv4(host);
+}
+
+/** The URL when the server may fetch it as an avatar, else null */
+export function allowedAvatarUrl(raw?: string | null): URL | null {
+  if (!raw) return null;
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" || url.username || url.password) return null;
+  if (url.port && url.port !== "443") return null;
+  if (isInternalHost(url.hostname)) return null;
+  return hostAllowed(url.hostname.toLowerCase(), allowedHosts()) ? url : null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Currencies a paylink can be denominated in. Amounts travel through the app in
+ * major units (what the payer types); `minorUnits` is the number of decimals the
+ * currency allows, used for rounding/validation and for minor-unit conversion.
+ */
+import { type CountryCode, getNumberingPlan } from "./msisdn";
+
+export type CurrencyCode = "UGX" | "KES" | "TZS" | "RWF";
+
+export type CurrencyInfo = {
+  code: CurrencyCode;
+  minorUnits: number;
+  /** Per-payment bounds in major units (mobile money wallet limits) */
+  minAmount: number;
+  maxAmount: number;
+  /** Locale used when none is requested */
+  locale: string;
+};
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  UGX: { code: "UGX", minorUnits: 0, minAmount: 500, maxAmount: 50_000_000, locale: "en-UG" },
+  KES: { code: "KES", minorUnits: 2, minAmount: 10, maxAmount: 250_000, locale: "en-KE" },
+  TZS: { code: "TZS", minorUnits: 0, minAmount: 1_000, maxAmount: 5_000_000, locale: "en-TZ" },
+  RWF: { code: "RWF", minorUnits: 0, minAmount: 100, maxAmount: 5_000_000, locale: "en-RW" },
+};
+
+export const DEFAULT_CURRENCY: CurrencyCode = "UGX";
+
+const COUNTRY_CURRENCY: Record<CountryCode, CurrencyCode> = {
+  UG: "UGX",
+  KE: "KES",
+  TZ: "TZS",
+  RW: "RWF",
+};
+
+export function isSupportedCurrency(code: unknown): code is CurrencyCode {
+  return typeof code === "string" && code.toUpperCase() in CURRENCIES;
+}
+
+/** Currency info (case-insensitive); unknown/missing falls back to UGX */
+export function getCurrency(code?: string | null): CurrencyInfo {
+  const c = code?.toUpperCase();
+  return isSupportedCurrency(c) ? CURRENCIES[c] : CURRENCIES[DEFAULT_CURRENCY];
+}
+
+export function currencyForCountry(country?: string | null): CurrencyCode {
+  return COUNTRY_CURRENCY[getNumberingPlan(country).country];
+}
+
+export function toMinorUnits(amount: number, currency?: string | null): number {
+  return Math.round(amount * 10 ** getCurrency(currency).minorUnits);
+}
+
+export function fromMinorUnits(minor: number, currency?: string | null): number {
+  return minor / 10 ** getCurrency(currency).minorUnits;
+}
+
+/** True when the amount has no more decimals than the currency allows */
+export function hasValidPrecision(amount: number, currency?: string | null): boolean {
+  const minor = amount * 10 ** getCurrency(currency).minorUnits;
+  return Math.abs(minor - Math.round(minor)) < 1e-6;
+}
+
+/** "UGX 125,000" / "KES 1,250.50": the one formatter for form, metadata, OG and receipts */
+export function formatMoney(amount: number, currency?: string | null, locale?: string): string {
+  const info = getCurrency(currency);
+  const opts: Intl.NumberFormatOptions = {
+    style: "currency",
+    currency: info.code,
+    currencyDisplay: "code",
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : info.minorUnits,
+    maximumFractionDigits: info.minorUnits,
+  };
+  try {
+    return new Intl.NumberFormat(locale ?? info.locale, opts).format(amount);
+  } catch {
+    return new Intl.NumberFormat(info.locale, opts).format(amount);
+  }
+}
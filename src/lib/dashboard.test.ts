@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+
+import { isCalendarDay, ledgerRange, localDay, parseDashboardFilter } from "./dashboard";
+
+const timeZone = "Africa/Kampala";
+
+describe("dashboard filter days", () => {
+  it("accepts only days that exist", () => {
+    expect(isCalendarDay("2025-09-15")).toBe(true);
+    expect(isCalendarDay("2024-02-29")).toBe(true);
+    expect(isCalendarDay("2025-02-29")).toBe(false);
+    expect(isCalendarDay("2025-13-45")).toBe(false);
+    expect(isCalendarDay("2025-04-31")).toBe(false);
+    expect(isCalendarDay("2025-9-15")).toBe(false);
+  });
+
+  it("falls back to the default range for impossible days", () => {
+    const filter = parseDashboardFilter({ from: "2025-13-45", to: "2025-02-30" }, timeZone);
+    expect(filter.to).toBe(localDay(new Date(), timeZone));
+    expect(isCalendarDay(filter.from)).toBe(true);
+
+    const range = ledgerRange(filter);
+    expect(Number.isNaN(range.from!.getTime())).toBe(false);
+    expect(Number.isNaN(range.to!.getTime())).toBe(false);
+  });
+
+  it("keeps valid days, in order", () => {
+    const filter = parseDashboardFilter({ from: "2025-09-30", to: "2025-09-01" }, timeZone);
+    expect([filter.from, filter.to]).toEqual(["2025-09-01", "2025-09-30"]);
+  });
+});
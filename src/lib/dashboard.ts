@@ -0,0 +1,144 @@
+import {
+  type DateRange,
+  LEDGER_STATES,
+  type LedgerEntry,
+  type LedgerState,
+  ledger,
+} from "./ledger";
+
+/**
+ * Query model behind the recipient dashboard (/dashboard): filters arrive as
+ * GET params so views can be bookmarked, and days are bucketed in the
+ * recipient's local time zone.
+ */
+
+export type DashboardFilter = {
+  status: LedgerState | "all";
+  /** Inclusive local days, "YYYY-MM-DD" */
+  from: string;
+  to: string;
+  /** Major units */
+  minAmount?: number;
+  maxAmount?: number;
+};
+
+export type DayTotal = {
+  day: string;
+  count: number;
+  paidCount: number;
+  /** Sum of paid amounts per currency */
+  paid: Record<string, number>;
+};
+
+const DEFAULT_RANGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const TIME_ZONES: Record<string, string> = {
+  UG: "Africa/Kampala",
+  KE: "Africa/Nairobi",
+  TZ: "Africa/Dar_es_Salaam",
+  RW: "Africa/Kigali",
+};
+
+export function timeZoneFor(country?: string | null) {
+  return TIME_ZONES[String(country ?? "").toUpperCase()] ?? TIME_ZONES.UG;
+}
+
+/** "2025-09-15" for an instant, in `timeZone` */
+export function localDay(at: Date | string, timeZone: string) {
+  return new Intl.DateTimeFormat("en-CA", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    timeZone,
+  }).format(new Date(at));
+}
+
+/** "2025-09-15" that names a real day: "2025-13-45" and "2025-02-30" do not */
+export function isCalendarDay(value: string) {
+  if (!DAY_PATTERN.test(value)) return false;
+  const at = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(at) && new Date(at).toISOString().slice(0, 10) === value;
+}
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const pick = (sp: SearchParams, key: string) => {
+  const v = sp[key];
+  return (Array.isArray(v) ? v[0] : v)?.trim() || undefined;
+};
+
+const positive = (raw?: string) => {
+  const n = raw ? Number(raw.replace(/[^\d.]/g, "")) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+/** Unknown or malformed params fall back to the last 30 days, any status */
+export function parseDashboardFilter(sp: SearchParams, timeZone: string): DashboardFilter {
+  const status = pick(sp, "status");
+  const today = localDay(new Date(), timeZone);
+  let from = pick(sp, "from");
+  let to = pick(sp, "to");
+  if (!to || !isCalendarDay(to)) to = today;
+  if (!from || !isCalendarDay(from)) {
+    from = localDay(new Date(Date.parse(`${to}T12:00:00Z`) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS), timeZone);
+  }
+  if (from > to) [from, to] = [to, from];
+
+  return {
+    status: LEDGER_STATES.includes(status as LedgerState) ? (status as LedgerState) : "all",
+    from,
+    to,
+    minAmount: positive(pick(sp, "min")),
+    maxAmount: positive(pick(sp, "max")),
+  };
+}
+
+/**
+ * Ledger range covering the filter's local days. Zones here are within a day
+ * of UTC, so a day of slack either side is enough; matchesFilter trims it.
+ */
+export function ledgerRange(filter: DashboardFilter): DateRange {
+  return {
+    from: new Date(Date.parse(`${filter.from}T00:00:00Z`) - DAY_MS),
+    to: new Date(Date.parse(`${filter.to}T23:59:59Z`) + DAY_MS),
+  };
+}
+
+export function matchesFilter(e: LedgerEntry, filter: DashboardFilter, timeZone: string) {
+  const day = localDay(e.createdAtIso, timeZone);
+  if (day < filter.from || day > filter.to) return false;
+  if (filter.status !== "all" && e.state !== filter.status) return false;
+  if (filter.minAmount !== undefined && e.amount < filter.minAmount) return false;
+  if (filter.maxAmount !== undefined && e.amount > filter.maxAmount) return false;
+  return true;
+}
+
+/** Entries for a handle matching the filter, newest first */
+export async function listDashboardEntries(
+  handle: string,
+  filter: DashboardFilter,
+  timeZone: string
+): Promise<LedgerEntry[]> {
+  const entries = await ledger.listByHandle(handle, ledgerRange(filter));
+  return entries
+    .filter((e) => matchesFilter(e, filter, timeZone))
+    .sort((a, b) => b.createdAtIso.localeCompare(a.createdAtIso));
+}
+
+/** Per-day counts and paid sums, newest day first */
+export function dailyTotals(entries: LedgerEntry[], timeZone: string): DayTotal[] {
+  const days = new Map<string, DayTotal>();
+  for (const e of entries) {
+    const day = localDay(e.createdAtIso, timeZone);
+    const total = days.get(day) ?? { day, count: 0, paidCount: 0, paid: {} };
+    total.count += 1;
+    if (e.state === "paid") {
+      total.paidCount += 1;
+      total.paid[e.currency] = (total.paid[e.currency] ?? 0) + e.amount;
+    }
+    days.set(day, total);
+  }
+  return [...days.values()].sort((a, b) => b.day.localeCompare(a.day));
+}
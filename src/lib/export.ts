@@ -0,0 +1,138 @@
+import { fromMinorUnits, getCurrency, toMinorUnits } from "./currency";
+import type { PaidReceipt } from "./receipt";
+
+/**
+ * Bookkeeping exports of paid paylink transactions, written row by row to a
+ * ReadableStream so a long date range never sits in memory at once.
+ *
+ *   csv        one row per PaidReceipt field
+ *   json       an array of PaidReceipt objects
+ *   statement  bank-statement style: date, description, reference, credit, running balance
+ */
+
+export type ExportFormat = "csv" | "json" | "statement";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "statement"];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  statement: "text/csv; charset=utf-8",
+};
+
+const CSV_COLUMNS: (keyof PaidReceipt)[] = [
+  "paidAtIso",
+  "amount",
+  "currency",
+  "tx",
+  "providerTx",
+  "payerMsisdn",
+  "recipientMsisdn",
+  "recipientName",
+  "invoiceNumber",
+  "memo",
+];
+
+const STATEMENT_COLUMNS = ["Date", "Description", "Reference", "Credit", "Currency", "Balance"];
+
+export function exportFilename(handle: string, format: ExportFormat, from: string, to: string) {
+  const kind = format === "statement" ? "statement" : "transactions";
+  return `guto-${handle}-${kind}-${from}-to-${to}.${format === "json" ? "json" : "csv"}`;
+}
+
+/** RFC 4180 quoting; a leading = + - @ is defused so spreadsheets don't run it */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let s = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+const csvLine = (cells: unknown[]) => cells.map(csvCell).join(",") + "\r\n";
+
+/** "2025-09-15 12:30" in the recipient's zone */
+function statementDate(iso: string, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZone,
+  }).formatToParts(new Date(iso));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")} ${get("hour")}:${get("minute")}`;
+}
+
+function statementDescription(r: PaidReceipt) {
+  const from = `Paylink payment from +${r.payerMsisdn}`;
+  if (r.invoiceNumber) return `${from}, invoice ${r.invoiceNumber}`;
+  return r.memo ? `${from}, ${r.memo}` : from;
+}
+
+/** Fixed decimals per currency, no grouping, so spreadsheets read numbers */
+function plainAmount(amount: number, currency?: string) {
+  return amount.toFixed(getCurrency(currency).minorUnits);
+}
+
+export function exportStream(
+  receipts: AsyncIterable<PaidReceipt>,
+  format: ExportFormat,
+  opts: { timeZone: string }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = receipts[Symbol.asyncIterator]();
+  // running balance in minor units, per currency
+  const balances = new Map<string, number>();
+  let started = false;
+  let count = 0;
+
+  const header = () => {
+    if (format === "json") return "[";
+    return csvLine(format === "csv" ? CSV_COLUMNS : STATEMENT_COLUMNS);
+  };
+
+  const row = (r: PaidReceipt) => {
+    if (format === "json") return `${count === 0 ? "" : ","}\n${JSON.stringify(r)}`;
+    if (format === "csv") return csvLine(CSV_COLUMNS.map((c) => r[c]));
+
+    const currency = getCurrency(r.currency).code;
+    const balance = (balances.get(currency) ?? 0) + toMinorUnits(r.amount, currency);
+    balances.set(currency, balance);
+    return csvLine([
+      statementDate(r.paidAtIso, opts.timeZone),
+      statementDescription(r),
+      r.providerTx || r.tx,
+      plainAmount(r.amount, currency),
+      currency,
+      plainAmount(fromMinorUnits(balance, currency), currency),
+    ]);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true;
+          controller.enqueue(encoder.encode(header()));
+          return;
+        }
+        const next = await iterator.next();
+        if (next.done) {
+          if (format === "json") controller.enqueue(encoder.encode(count === 0 ? "]\n" : "\n]\n"));
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(row(next.value)));
+        count += 1;
+      } catch (err) {
+        console.error("❗ export error:", err);
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Mobile money fee preview. Each country has a table of amount bands per
+ * provider (carrier name from the numbering plan, or "*" for any other);
+ * a band's fee is `flat + percent% of amount`, rounded up to the currency's
+ * minor unit. Figures are indicative: the gateway charges the real fee.
+ *
+ * Override the built-in tables with NEXT_PUBLIC_FEE_TABLE, a JSON object of the
+ * same shape (it has to be public: the form previews fees before submitting).
+ */
+import { currencyForCountry, getCurrency } from "./currency";
+import { type CountryCode, getNumberingPlan } from "./msisdn";
+
+export type FeeBand = {
+  /** Inclusive upper bound of the band in major units; null for no upper bound */
+  upTo: number | null;
+  flat?: number;
+  percent?: number;
+};
+
+export type FeeTable = Partial<Record<CountryCode, Record<string, FeeBand[]>>>;
+
+export type FeeQuote = {
+  provider: string;
+  currency: string;
+  amount: number;
+  fee: number;
+  total: number;
+};
+
+const DEFAULT_FEE_TABLE: FeeTable = {
+  UG: {
+    MTN: [
+      { upTo: 5_000, flat: 100 },
+      { upTo: 60_000, flat: 500 },
+      { upTo: 500_000, flat: 1_000 },
+      { upTo: null, flat: 1_000, percent: 0.5 },
+    ],
+    Airtel: [
+      { upTo: 5_000, flat: 100 },
+      { upTo: 60_000, flat: 500 },
+      { upTo: 500_000, flat: 1_000 },
+      { upTo: null, flat: 1_000, percent: 0.5 },
+    ],
+  },
+  KE: {
+    Safaricom: [
+      { upTo: 100, flat: 0 },
+      { upTo: 1_000, flat: 13 },
+      { upTo: 10_000, flat: 54 },
+      { upTo: null, flat: 108 },
+    ],
+    "*": [
+      { upTo: 1_000, flat: 15 },
+      { upTo: null, flat: 60 },
+    ],
+  },
+  TZ: {
+    "*": [
+      { upTo: 10_000, flat: 500 },
+      { upTo: 100_000, flat: 1_500 },
+      { upTo: null, flat: 1_500, percent: 0.5 },
+    ],
+  },
+  RW: {
+    "*": [
+      { upTo: 1_000, flat: 20 },
+      { upTo: 100_000, flat: 100 },
+      { upTo: null, flat: 250 },
+    ],
+  },
+};
+
+let cachedTable: FeeTable | null = null;
+
+function feeTable(): FeeTable {
+  if (cachedTable) return cachedTable;
+  const raw = process.env.NEXT_PUBLIC_FEE_TABLE;
+  try {
+    cachedTable = raw ? (JSON.parse(raw) as FeeTable) : DEFAULT_FEE_TABLE;
+  } catch (err) {
+    console.error("❗ NEXT_PUBLIC_FEE_TABLE is not valid JSON:", err);
+    cachedTable = DEFAULT_FEE_TABLE;
+  }
+  return cachedTable;
+}
+
+/** Canonical carrier name for a country, matched case-insensitively; null if unknown */
+export function resolveProvider(country: string | null | undefined, name?: string | null) {
+  if (!name) return null;
+  const wanted = name.trim().toLowerCase();
+  return getNumberingPlan(country).carriers.find((c) => c.name.toLowerCase() === wanted)?.name ?? null;
+}
+
+function bandFor(bands: FeeBand[], amount: number): FeeBand | null {
+  return bands.find((b) => b.upTo === null || amount <= b.upTo) ?? null;
+}
+
+/** Fee and total for paying `amount` through `provider`; zero fee when no band applies */
+export function quoteFee(
+  amount: number,
+  opts: { country?: string | null; provider: string; currency?: string | null }
+): FeeQuote {
+  const country = getNumberingPlan(opts.country).country;
+  const currency = getCurrency(opts.currency ?? currencyForCountry(country));
+  const bands = feeTable()[country];
+  const band = bands ? bandFor(bands[opts.provider] ?? bands["*"] ?? [], amount) : null;
+
+  const scale = 10 ** currency.minorUnits;
+  const raw = band ? (band.flat ?? 0) + (amount * (band.percent ?? 0)) / 100 : 0;
+  const fee = Math.ceil(raw * scale - 1e-9) / scale;
+
+  return {
+    provider: opts.provider,
+    currency: currency.code,
+    amount,
+    fee,
+    total: Math.round((amount + fee) * scale) / scale,
+  };
+}
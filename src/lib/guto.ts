@@ -0,0 +1,51 @@
+/** Base URL of the Guto gateway API (server-side only) */
+export function gutoApiBase() {
+  return (process.env.GUTO_API_URL || "https://api.guto.app").replace(/\/+$/, "");
+}
+
+/**
+ * fetch() against the gateway with the server-held credential attached.
+ * Never import this from client components: GUTO_API_KEY must not leave the server.
+ */
+export function gutoFetch(path: string, init: RequestInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Accept", "application/json");
+  if (init.body) headers.set("Content-Type", "application/json");
+
+  const key = process.env.GUTO_API_KEY;
+  if (key) headers.set("Authorization", `Bearer ${key}`);
+
+  return fetch(`${gutoApiBase()}${path}`, { ...init, headers, cache: "no-store" });
+}
+
+/**
+ * Reads a transaction's api_status from the gateway.
+ * `found: false` means the gateway has no record yet (404); other failures throw.
+ */
+export async function fetchTransactionStatus(
+  id: string
+): Promise<{ found: boolean; status: string | null }> {
+  const res = await gutoFetch(`/api/transactions/${encodeURIComponent(id)}`);
+  if (res.status === 404) return { found: false, status: null };
+  if (!res.ok) throw new Error(`Gateway status error ${res.status}`);
+
+  const data = await res.json().catch(() => ({} as any));
+  const status =
+    data?.data?.api_status ??
+    data?.transaction?.api_status ??
+    data?.api_status ??
+    data?.status;
+  return { found: true, status: typeof status === "string" ? status.toLowerCase() : null };
+}
+
+/**
+ * Registered mobile money account name for an MSISDN, or null when the gateway
+ * has none. Network failures throw.
+ */
+export async function lookupAccountName(msisdn: string): Promise<string | null> {
+  const res = await gutoFetch("/api/verify", { method: "POST", body: JSON.stringify({ mobile: msisdn }) });
+  if (!res.ok) return null;
+  const data = await res.json().catch(() => null);
+  const name = data?.raw?.contact?.name;
+  return typeof name === "string" && name.trim() ? name.trim() : null;
+}
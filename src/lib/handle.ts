@@ -0,0 +1,60 @@
+/**
+ * Paylink handles in URLs. The canonical form is lowercase `/@handle`; other
+ * spellings (/%40Shop, /shop, /Shop/) redirect there from middleware.ts.
+ * Kept free of server-only imports so middleware can use it.
+ */
+
+/** Top-level paths that are routes of their own, not handles */
+export const RESERVED_PATHS = new Set([
+  "api",
+  "dashboard",
+  "login",
+  "r",
+  "robots.txt",
+  "sitemap.xml",
+  "favicon.ico",
+  "opengraph-image.png",
+  "twitter-image.png",
+]);
+
+function safeDecode(input: string): string {
+  try {
+    return decodeURIComponent(input);
+  } catch {
+    return input;
+  }
+}
+
+/** "%40sonde51" -> "@sonde51" -> "sonde51" (only a-z0-9._-) */
+export function normalizeHandleParam(input: string) {
+  let s = safeDecode(input).trim();
+  s = s.replace(/^@/i, "").replace(/^%40/i, "");
+  return s.toLowerCase().replace(/[^a-z0-9._-]/g, "");
+}
+
+/** "/shop/poster" for handle "shop" and rest "/poster" */
+export function canonicalHandlePath(handle: string, rest = "") {
+  return `/@${handle}${rest}`;
+}
+
+/** Files served from public/ and metadata routes; never handles */
+export const STATIC_FILE = /\.(?:png|jpe?g|svg|ico|gif|webp|txt|xml|webmanifest)$/i;
+
+/** `/@x` and `/@x/poster`, optionally with a trailing slash */
+const HANDLE_PATH = /^\/([^/]+)(\/poster)?\/?$/;
+
+/**
+ * Where a request path should live, or null when it is already canonical or
+ * isn't a paylink path at all.
+ */
+export function canonicalRedirectPath(pathname: string): string | null {
+  const match = HANDLE_PATH.exec(pathname);
+  if (!match) return null;
+  const [, segment, rest = ""] = match;
+  if (RESERVED_PATHS.has(segment.toLowerCase()) || STATIC_FILE.test(segment)) return null;
+
+  const handle = normalizeHandleParam(segment);
+  if (!handle) return null; // nothing usable; the page renders its 404
+  const canonical = canonicalHandlePath(handle, rest);
+  return pathname === canonical ? null : canonical;
+}
@@ -0,0 +1,31 @@
+/**
+ * HMAC helpers on Web Crypto so they work in both the Node and Edge runtimes.
+ */
+const encoder = new TextEncoder();
+
+async function importKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+}
+
+function toHex(buf: ArrayBuffer) {
+  return Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function hmacSha256Hex(secret: string, data: string): Promise<string> {
+  const sig = await crypto.subtle.sign("HMAC", await importKey(secret), encoder.encode(data));
+  return toHex(sig);
+}
+
+/** Constant-time string comparison (length leak only) */
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
@@ -0,0 +1,83 @@
+/**
+ * Message catalogs for the paylink UI. English is the source catalog; every
+ * other locale must provide the same keys (enforced by the `Messages` type).
+ * Isomorphic: server components, metadata and OG images translate with
+ * `createTranslator`, client components through ~/providers/i18n-provider.
+ */
+import en from "../messages/en";
+import lg from "../messages/lg";
+import sw from "../messages/sw";
+import { getNumberingPlan } from "./msisdn";
+
+export type Messages = typeof en;
+export type MessageKey = keyof Messages;
+export type TranslateVars = Record<string, string | number>;
+
+export const LOCALES = ["en", "lg", "sw"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+const CATALOGS: Record<Locale, Messages> = { en, lg, sw };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+}
+
+/** Best supported match for an Accept-Language header, e.g. "sw-KE,sw;q=0.9,en;q=0.8" */
+export function matchAcceptLanguage(header?: string | null): Locale | null {
+  if (!header) return null;
+  const ranked = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((p) => p.trim().startsWith("q="));
+      return { base: tag.trim().split("-")[0].toLowerCase(), q: q ? Number(q.trim().slice(2)) : 1 };
+    })
+    .filter((l) => l.base && Number.isFinite(l.q) && l.q > 0)
+    .sort((a, b) => b.q - a.q);
+  return ranked.find((l) => isLocale(l.base))?.base as Locale | undefined ?? null;
+}
+
+/** `?lang=` wins over Accept-Language; anything unsupported falls back to English */
+export function detectLocale(opts: {
+  lang?: string | string[] | null;
+  acceptLanguage?: string | null;
+}): Locale {
+  const lang = (Array.isArray(opts.lang) ? opts.lang[0] : opts.lang)?.trim().toLowerCase();
+  if (isLocale(lang)) return lang;
+  return matchAcceptLanguage(opts.acceptLanguage) ?? DEFAULT_LOCALE;
+}
+
+/** BCP 47 tag for Intl number/date formatting: the UI language in the recipient's country */
+export function intlLocale(locale: Locale, country?: string | null): string {
+  return `${locale}-${getNumberingPlan(country).country}`;
+}
+
+/** OpenGraph wants "ll_CC" */
+export function ogLocale(locale: Locale, country?: string | null): string {
+  return intlLocale(locale, country).replace("-", "_");
+}
+
+/** Country name in the UI language, falling back to the plan's English name */
+export function regionName(country: string | null | undefined, locale: Locale): string {
+  const plan = getNumberingPlan(country);
+  try {
+    return new Intl.DisplayNames([locale], { type: "region" }).of(plan.country) ?? plan.name;
+  } catch {
+    return plan.name;
+  }
+}
+
+/** Looks up `key` (English if the locale lacks it) and fills {placeholders} from vars */
+export function translate(locale: Locale, key: MessageKey, vars: TranslateVars = {}): string {
+  const template = CATALOGS[locale]?.[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in vars ? String(vars[name]) : match
+  );
+}
+
+export function createTranslator(locale: Locale) {
+  return (key: MessageKey, vars?: TranslateVars) => translate(locale, key, vars);
+}
+
+export type Translator = ReturnType<typeof createTranslator>;
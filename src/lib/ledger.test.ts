@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { type NewLedgerEntry, createLedger, memoryLedgerStore } from "./ledger";
+
+const input = (tx: string): NewLedgerEntry => ({
+  tx,
+  handle: "shop",
+  amount: 5000,
+  currency: "UGX",
+  payerMsisdn: "256772123456",
+  recipientMsisdn: "256701234567",
+  recipientName: "Shop",
+});
+
+describe("ledger on the memory store", () => {
+  it("records an initiated payment once", async () => {
+    const ledger = createLedger(memoryLedgerStore());
+
+    const first = await ledger.recordInitiated(input("tx-1"));
+    expect(first?.state).toBe("initiated");
+    expect(await ledger.recordInitiated(input("tx-1"))).toBeNull();
+    expect(await ledger.listByHandle("shop")).toHaveLength(1);
+  });
+
+  it("moves through states and stamps paidAtIso", async () => {
+    const ledger = createLedger(memoryLedgerStore());
+    await ledger.recordInitiated(input("tx-1"));
+
+    await ledger.transition("tx-1", "pending", "pay");
+    const paid = await ledger.transition("tx-1", "paid", "webhook");
+    expect(paid?.state).toBe("paid");
+    expect(paid?.paidAtIso).not.toBeNull();
+    expect(paid?.transitions.map((t) => t.state)).toEqual(["initiated", "pending", "paid"]);
+  });
+
+  it("lets final states give way only to reversed", async () => {
+    const ledger = createLedger(memoryLedgerStore());
+    await ledger.recordInitiated(input("tx-1"));
+    await ledger.transition("tx-1", "paid", "webhook");
+
+    expect((await ledger.transition("tx-1", "pending", "pay"))?.state).toBe("paid");
+    expect((await ledger.transition("tx-1", "failed", "gateway"))?.state).toBe("paid");
+    expect((await ledger.transition("tx-1", "reversed", "webhook"))?.state).toBe("reversed");
+  });
+
+  it("ignores repeated transitions", async () => {
+    const ledger = createLedger(memoryLedgerStore());
+    await ledger.recordInitiated(input("tx-1"));
+    await ledger.transition("tx-1", "pending", "pay");
+    const again = await ledger.transition("tx-1", "pending", "webhook");
+    expect(again?.transitions).toHaveLength(2);
+  });
+
+  it("finds entries by gateway transaction id once linked", async () => {
+    const ledger = createLedger(memoryLedgerStore());
+    await ledger.recordInitiated(input("tx-1"));
+
+    expect(await ledger.transition("gw-1", "paid", "webhook")).toBeNull();
+    await ledger.attachGatewayRef("tx-1", "gw-1", "prov-1");
+    const paid = await ledger.transition("gw-1", "paid", "webhook");
+    expect(paid?.tx).toBe("tx-1");
+    expect(paid?.providerTx).toBe("prov-1");
+  });
+});
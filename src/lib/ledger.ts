@@ -0,0 +1,261 @@
+import { DEFAULT_CURRENCY } from "./currency";
+import { hasUpstash, redis } from "./redis";
+
+/**
+ * Server-side record of every paylink payment, keyed by our local tx UUID.
+ * Backed by Upstash Redis; `memoryLedgerStore()` is a drop-in for tests and
+ * for local runs without Upstash credentials.
+ */
+
+export type LedgerState =
+  | "initiated"
+  | "pending"
+  | "approved"
+  | "paid"
+  | "failed"
+  | "cancelled"
+  | "reversed"
+  | "error";
+
+export type LedgerSource = "pay" | "webhook" | "gateway";
+
+export type LedgerTransition = {
+  state: LedgerState;
+  atIso: string;
+  source: LedgerSource;
+};
+
+export type LedgerEntry = {
+  tx: string;
+  transactionId: string | null;
+  providerTx: string | null;
+  handle: string;
+  amount: number;
+  currency: string;
+  payerMsisdn: string;
+  payerEmail?: string;
+  /** Mobile money network the payer chose (or we detected) */
+  provider?: string | null;
+  /** From signed paylink terms, when the payment came through an invoice link */
+  invoiceNumber?: string | null;
+  memo?: string | null;
+  recipientMsisdn: string;
+  recipientName: string;
+  state: LedgerState;
+  createdAtIso: string;
+  updatedAtIso: string;
+  paidAtIso: string | null;
+  transitions: LedgerTransition[];
+};
+
+export type DateRange = { from?: Date; to?: Date };
+
+/** Storage primitives the ledger needs; kept small so adapters stay trivial */
+export interface LedgerStore {
+  get(tx: string): Promise<LedgerEntry | null>;
+  getMany(txs: string[]): Promise<LedgerEntry[]>;
+  put(entry: LedgerEntry): Promise<void>;
+  /** Writes only if no entry exists for entry.tx; false when one already did */
+  create(entry: LedgerEntry): Promise<boolean>;
+  /** Maps a gateway transaction_id to our tx */
+  link(transactionId: string, tx: string): Promise<void>;
+  resolve(transactionId: string): Promise<string | null>;
+  /** Sorted-set style index: member tx scored by epoch ms */
+  index(name: string, score: number, tx: string): Promise<void>;
+  range(name: string, min: number, max: number): Promise<string[]>;
+}
+
+export const LEDGER_STATES: LedgerState[] = [
+  "initiated", "pending", "approved", "paid", "failed", "cancelled", "reversed", "error",
+];
+const FINAL_STATES: LedgerState[] = ["paid", "failed", "cancelled", "reversed", "error"];
+
+/** Maps a gateway api_status onto a ledger state (unknown → "pending") */
+export function toLedgerState(status: string | null | undefined): LedgerState {
+  const s = String(status ?? "").toLowerCase() as LedgerState;
+  return LEDGER_STATES.includes(s) ? s : "pending";
+}
+
+/* ---------------- adapters ---------------- */
+export function redisLedgerStore(prefix = "ledger"): LedgerStore {
+  const txKey = (tx: string) => `${prefix}:tx:${tx}`;
+  return {
+    get: (tx) => redis.get<LedgerEntry>(txKey(tx)),
+    async getMany(txs) {
+      if (txs.length === 0) return [];
+      const rows = await redis.mget<(LedgerEntry | null)[]>(...txs.map(txKey));
+      return rows.filter((r): r is LedgerEntry => !!r);
+    },
+    async put(entry) {
+      await redis.set(txKey(entry.tx), entry);
+    },
+    async create(entry) {
+      return (await redis.set(txKey(entry.tx), entry, { nx: true })) === "OK";
+    },
+    async link(transactionId, tx) {
+      await redis.set(`${prefix}:gw:${transactionId}`, tx);
+    },
+    resolve: (transactionId) => redis.get<string>(`${prefix}:gw:${transactionId}`),
+    async index(name, score, tx) {
+      await redis.zadd(`${prefix}:idx:${name}`, { score, member: tx });
+    },
+    range: (name, min, max) =>
+      redis.zrange<string[]>(`${prefix}:idx:${name}`, min, max, { byScore: true }),
+  };
+}
+
+export function memoryLedgerStore(): LedgerStore {
+  const entries = new Map<string, LedgerEntry>();
+  const links = new Map<string, string>();
+  const indexes = new Map<string, Map<string, number>>();
+  const clone = (e: LedgerEntry): LedgerEntry => structuredClone(e);
+
+  return {
+    async get(tx) {
+      const e = entries.get(tx);
+      return e ? clone(e) : null;
+    },
+    async getMany(txs) {
+      return txs.flatMap((tx) => (entries.has(tx) ? [clone(entries.get(tx)!)] : []));
+    },
+    async put(entry) {
+      entries.set(entry.tx, clone(entry));
+    },
+    async create(entry) {
+      if (entries.has(entry.tx)) return false;
+      entries.set(entry.tx, clone(entry));
+      return true;
+    },
+    async link(transactionId, tx) {
+      links.set(transactionId, tx);
+    },
+    async resolve(transactionId) {
+      return links.get(transactionId) ?? null;
+    },
+    async index(name, score, tx) {
+      if (!indexes.has(name)) indexes.set(name, new Map());
+      indexes.get(name)!.set(tx, score);
+    },
+    async range(name, min, max) {
+      return [...(indexes.get(name) ?? new Map<string, number>()).entries()]
+        .filter(([, score]) => score >= min && score <= max)
+        .sort((a, b) => a[1] - b[1])
+        .map(([tx]) => tx);
+    },
+  };
+}
+
+/* ---------------- ledger ---------------- */
+export type NewLedgerEntry = Pick<
+  LedgerEntry,
+  | "tx"
+  | "handle"
+  | "amount"
+  | "payerMsisdn"
+  | "payerEmail"
+  | "provider"
+  | "invoiceNumber"
+  | "memo"
+  | "recipientMsisdn"
+  | "recipientName"
+> & { currency?: string };
+
+export function createLedger(store: LedgerStore) {
+  const byTransactionId = async (transactionId: string) => {
+    const tx = await store.resolve(transactionId);
+    return tx ? store.get(tx) : null;
+  };
+
+  const rangeOf = (index: string, range: DateRange = {}) =>
+    store.range(
+      index,
+      range.from?.getTime() ?? 0,
+      range.to?.getTime() ?? Number.MAX_SAFE_INTEGER
+    );
+
+  const list = async (index: string, range?: DateRange) => store.getMany(await rangeOf(index, range));
+
+  /** Same entries as list(), fetched in batches so large ranges can be streamed */
+  async function* iterate(index: string, range?: DateRange, batchSize = 100) {
+    const txs = await rangeOf(index, range);
+    for (let i = 0; i < txs.length; i += batchSize) {
+      yield* await store.getMany(txs.slice(i, i + batchSize));
+    }
+  }
+
+  return {
+    get: (tx: string) => store.get(tx),
+    byTransactionId,
+
+    /**
+     * Records a payment the moment /api/pay accepts it, before the gateway call.
+     * Returns null when an entry with the same tx already exists (idempotent replay).
+     */
+    async recordInitiated(input: NewLedgerEntry): Promise<LedgerEntry | null> {
+      const now = new Date();
+      const entry: LedgerEntry = {
+        ...input,
+        currency: input.currency ?? DEFAULT_CURRENCY,
+        transactionId: null,
+        providerTx: null,
+        state: "initiated",
+        createdAtIso: now.toISOString(),
+        updatedAtIso: now.toISOString(),
+        paidAtIso: null,
+        transitions: [{ state: "initiated", atIso: now.toISOString(), source: "pay" }],
+      };
+      if (!(await store.create(entry))) return null;
+      await Promise.all([
+        store.index(`handle:${entry.handle}`, now.getTime(), entry.tx),
+        store.index(`payer:${entry.payerMsisdn}`, now.getTime(), entry.tx),
+        store.index("all", now.getTime(), entry.tx),
+      ]);
+      return entry;
+    },
+
+    /** Attaches the gateway's transaction_id / provider reference to our tx */
+    async attachGatewayRef(tx: string, transactionId: string, providerTx: string | null) {
+      const entry = await store.get(tx);
+      if (!entry) return null;
+      entry.transactionId = transactionId;
+      entry.providerTx = providerTx ?? entry.providerTx;
+      entry.updatedAtIso = new Date().toISOString();
+      await store.put(entry);
+      await store.link(transactionId, tx);
+      return entry;
+    },
+
+    /**
+     * Moves an entry (looked up by tx or gateway transaction_id) to a new state.
+     * Repeats are ignored, and final states only give way to "reversed".
+     */
+    async transition(
+      id: string,
+      state: LedgerState,
+      source: LedgerSource,
+      extra: { providerTx?: string | null } = {}
+    ): Promise<LedgerEntry | null> {
+      const entry = (await store.get(id)) ?? (await byTransactionId(id));
+      if (!entry || entry.state === state) return entry;
+      if (FINAL_STATES.includes(entry.state) && state !== "reversed") return entry;
+
+      const now = new Date().toISOString();
+      entry.state = state;
+      entry.updatedAtIso = now;
+      if (state === "paid") entry.paidAtIso = now;
+      if (extra.providerTx) entry.providerTx = extra.providerTx;
+      entry.transitions.push({ state, atIso: now, source });
+      await store.put(entry);
+      return entry;
+    },
+
+    listByHandle: (handle: string, range?: DateRange) => list(`handle:${handle}`, range),
+    listByPayer: (payerMsisdn: string, range?: DateRange) => list(`payer:${payerMsisdn}`, range),
+    listAll: (range?: DateRange) => list("all", range),
+    iterateByHandle: (handle: string, range?: DateRange) => iterate(`handle:${handle}`, range),
+  };
+}
+
+export type Ledger = ReturnType<typeof createLedger>;
+
+export const ledger = createLedger(hasUpstash ? redisLedgerStore() : memoryLedgerStore());
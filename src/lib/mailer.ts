@@ -0,0 +1,79 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ReactElement } from "react";
+import { render } from "@react-email/render";
+import { Resend } from "resend";
+
+export type MailMessage = {
+  to: string | string[];
+  subject: string;
+  react: ReactElement;
+  replyTo?: string | string[];
+};
+
+/** Raised when the transport rejects a message; routes map it to a 502 */
+export class MailError extends Error {
+  constructor(message: string, readonly code?: string) {
+    super(message);
+    this.name = "MailError";
+  }
+}
+
+type Transport = "resend" | "outbox";
+
+/**
+ * MAIL_TRANSPORT picks the transport explicitly; otherwise Resend is used when
+ * RESEND_API_KEY is set. Without it, development writes to the local outbox
+ * and production refuses to send rather than pretend it did.
+ */
+function transport(): Transport {
+  const t = process.env.MAIL_TRANSPORT;
+  if (t === "resend" || t === "outbox") return t;
+  if (process.env.RESEND_API_KEY) return "resend";
+  if (process.env.NODE_ENV === "production") {
+    throw new MailError("RESEND_API_KEY is not set", "missing_api_key");
+  }
+  return "outbox";
+}
+
+function fromAddress() {
+  return process.env.RESEND_FROM_EMAIL || "Guto <no-reply@guto.app>";
+}
+
+/** Writes the rendered HTML to MAIL_OUTBOX_DIR (default ./.outbox) instead of sending */
+async function sendToOutbox(message: MailMessage, html: string) {
+  const dir = path.resolve(process.env.MAIL_OUTBOX_DIR || ".outbox");
+  const id = `${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
+  const to = Array.isArray(message.to) ? message.to.join(", ") : message.to;
+  const header = `<!-- to: ${to} | from: ${fromAddress()} | subject: ${message.subject} -->\n`;
+
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, `${id}.html`), header + html, "utf8");
+  return { id };
+}
+
+let resend: Resend | null = null;
+
+async function sendWithResend(message: MailMessage, html: string) {
+  resend ??= new Resend(process.env.RESEND_API_KEY);
+
+  const { data, error } = await resend.emails.send({
+    from: fromAddress(),
+    to: message.to,
+    subject: message.subject,
+    html,
+    replyTo: message.replyTo ?? process.env.RESEND_REPLY_TO_EMAIL ?? undefined,
+  });
+
+  if (error || !data) {
+    throw new MailError(error?.message ?? "Resend returned no message id", error?.name);
+  }
+  return { id: data.id };
+}
+
+export async function sendMail(message: MailMessage): Promise<{ id: string }> {
+  const html = await render(message.react);
+  return transport() === "outbox"
+    ? sendToOutbox(message, html)
+    : sendWithResend(message, html);
+}
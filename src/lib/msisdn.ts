@@ -0,0 +1,158 @@
+/**
+ * Mobile money numbering plans. Each plan knows how to normalize a number to
+ * international form without "+" (e.g. "2567XXXXXXXX"), which network a prefix
+ * belongs to (non-authoritative: numbers can be ported) and how to prompt for it.
+ * Add a country by adding a plan to NUMBERING_PLANS.
+ */
+export type CountryCode = "UG" | "KE" | "TZ" | "RW";
+
+export type CarrierInfo = {
+  name: string;
+  /** Prefixes of the national significant number; longest match wins */
+  prefixes: string[];
+  /** Logo under /public, if we have one */
+  logo?: string;
+};
+
+export type NumberingPlan = {
+  country: CountryCode;
+  name: string;
+  /** "Ugandan", used in validation messages */
+  demonym: string;
+  dialCode: string;
+  /** National significant number (without trunk "0"), mobile ranges only */
+  mobilePattern: RegExp;
+  placeholder: string;
+  carriers: CarrierInfo[];
+};
+
+export const NUMBERING_PLANS: Record<CountryCode, NumberingPlan> = {
+  UG: {
+    country: "UG",
+    name: "Uganda",
+    demonym: "Ugandan",
+    dialCode: "256",
+    mobilePattern: /^7\d{8}$/,
+    placeholder: "07XXXXXXXX",
+    carriers: [
+      { name: "MTN", prefixes: ["76", "77", "78"], logo: "/mtn.png" },
+      { name: "Airtel", prefixes: ["70", "74", "75"], logo: "/airtel.png" },
+    ],
+  },
+  KE: {
+    country: "KE",
+    name: "Kenya",
+    demonym: "Kenyan",
+    dialCode: "254",
+    mobilePattern: /^(7\d{8}|1[01]\d{7})$/,
+    placeholder: "07XXXXXXXX",
+    carriers: [
+      { name: "Safaricom", prefixes: ["70", "71", "72", "74", "757", "758", "759", "768", "769", "79", "11"] },
+      { name: "Airtel", prefixes: ["73", "750", "751", "752", "753", "754", "755", "756", "78", "10"], logo: "/airtel.png" },
+      { name: "Telkom", prefixes: ["77"] },
+    ],
+  },
+  TZ: {
+    country: "TZ",
+    name: "Tanzania",
+    demonym: "Tanzanian",
+    dialCode: "255",
+    mobilePattern: /^[67]\d{8}$/,
+    placeholder: "07XXXXXXXX",
+    carriers: [
+      { name: "Vodacom", prefixes: ["74", "75", "76"] },
+      { name: "Airtel", prefixes: ["68", "69", "78"], logo: "/airtel.png" },
+      { name: "Tigo", prefixes: ["65", "67", "71", "77"] },
+      { name: "Halotel", prefixes: ["61", "62"] },
+    ],
+  },
+  RW: {
+    country: "RW",
+    name: "Rwanda",
+    demonym: "Rwandan",
+    dialCode: "250",
+    mobilePattern: /^7\d{8}$/,
+    placeholder: "07XXXXXXXX",
+    carriers: [
+      { name: "MTN", prefixes: ["78", "79"], logo: "/mtn.png" },
+      { name: "Airtel", prefixes: ["72", "73"], logo: "/airtel.png" },
+    ],
+  },
+};
+
+export const DEFAULT_COUNTRY: CountryCode = "UG";
+
+export function isSupportedCountry(country: unknown): country is CountryCode {
+  return typeof country === "string" && country.toUpperCase() in NUMBERING_PLANS;
+}
+
+/** Plan for a country code (case-insensitive); unknown/missing falls back to Uganda */
+export function getNumberingPlan(country?: string | null): NumberingPlan {
+  const code = country?.toUpperCase();
+  return isSupportedCountry(code) ? NUMBERING_PLANS[code] : NUMBERING_PLANS[DEFAULT_COUNTRY];
+}
+
+export function invalidMsisdnMessage(country?: string | null) {
+  const plan = getNumberingPlan(country);
+  return `Please enter a valid ${plan.demonym} mobile number (e.g. ${plan.placeholder})`;
+}
+
+function normalizeWithPlan(raw: string, plan: NumberingPlan): string | null {
+  let nsn: string | null = null;
+  if (raw.startsWith(`+${plan.dialCode}`)) nsn = raw.slice(plan.dialCode.length + 1);
+  else if (raw.startsWith(plan.dialCode)) nsn = raw.slice(plan.dialCode.length);
+  else if (raw.startsWith("0")) nsn = raw.slice(1);
+  return nsn && plan.mobilePattern.test(nsn) ? plan.dialCode + nsn : null;
+}
+
+/**
+ * Normalize to "<dial code><NSN>" (no "+").
+ * With a country, only that plan is accepted (local "0…" form included).
+ * Without one, any plan's international form is accepted and local form is
+ * read as Ugandan.
+ */
+export function normalizeMsisdn(input: string, country?: string | null): string | null {
+  if (!input) return null;
+  const raw = input.replace(/[^+\d]/g, "");
+  if (country) return normalizeWithPlan(raw, getNumberingPlan(country));
+
+  for (const plan of Object.values(NUMBERING_PLANS)) {
+    if (raw.startsWith("0")) continue;
+    const n = normalizeWithPlan(raw, plan);
+    if (n) return n;
+  }
+  return normalizeWithPlan(raw, NUMBERING_PLANS[DEFAULT_COUNTRY]);
+}
+
+/** Country of a normalized MSISDN, by dial code */
+export function countryOfMsisdn(msisdn: string | null): CountryCode | null {
+  if (!msisdn) return null;
+  const plan = Object.values(NUMBERING_PLANS).find(
+    (p) => msisdn.startsWith(p.dialCode) && p.mobilePattern.test(msisdn.slice(p.dialCode.length))
+  );
+  return plan?.country ?? null;
+}
+
+/** "256772123456" -> "256••••••456", for responses anyone holding a tx can read */
+export function maskMsisdn(msisdn: string): string {
+  if (msisdn.length <= 6) return "•".repeat(msisdn.length);
+  return `${msisdn.slice(0, 3)}${"•".repeat(msisdn.length - 6)}${msisdn.slice(-3)}`;
+}
+
+/** Carrier hint (non-authoritative) for a normalized MSISDN */
+export function carrierFromMsisdn(msisdn: string | null): string {
+  const country = countryOfMsisdn(msisdn);
+  if (!msisdn || !country) return "Unknown";
+
+  const plan = NUMBERING_PLANS[country];
+  const nsn = msisdn.slice(plan.dialCode.length);
+  let best: { name: string; length: number } | null = null;
+  for (const carrier of plan.carriers) {
+    for (const prefix of carrier.prefixes) {
+      if (nsn.startsWith(prefix) && prefix.length > (best?.length ?? 0)) {
+        best = { name: carrier.name, length: prefix.length };
+      }
+    }
+  }
+  return best?.name ?? "Unknown";
+}
@@ -0,0 +1,68 @@
+/**
+ * Color themes for the paylink OG image. `?theme=` picks one per image;
+ * OG_THEME sets the default (brand green when unset).
+ */
+export type OgThemeName = "green" | "light" | "dark";
+
+export type OgTheme = {
+  background: string;
+  /** Radial highlight laid over the background */
+  glow: string;
+  foreground: string;
+  muted: string;
+  textShadow: string;
+  /** Avatar ring and fallback-initial circle */
+  avatarRing: string;
+  avatarFallback: string;
+  /** Verified badge fill and check color */
+  badge: string;
+  badgeCheck: string;
+};
+
+export const OG_THEMES: Record<OgThemeName, OgTheme> = {
+  green: {
+    background: "#009e4f",
+    glow: "radial-gradient(780px 320px at 50% 58%, rgba(255,255,255,0.14), transparent 60%)",
+    foreground: "#ffffff",
+    muted: "rgba(255,255,255,0.9)",
+    textShadow: "0 6px 18px rgba(0,0,0,0.35), 0 2px 6px rgba(0,0,0,0.25)",
+    avatarRing: "rgba(255,255,255,0.9)",
+    avatarFallback: "#0a8a46",
+    badge: "#ffffff",
+    badgeCheck: "#009e4f",
+  },
+  light: {
+    background: "#ffffff",
+    glow: "radial-gradient(780px 320px at 50% 58%, rgba(0,158,79,0.10), transparent 60%)",
+    foreground: "#111827",
+    muted: "#4b5563",
+    textShadow: "none",
+    avatarRing: "#e5e7eb",
+    avatarFallback: "#009e4f",
+    badge: "#009e4f",
+    badgeCheck: "#ffffff",
+  },
+  dark: {
+    background: "#0b0f14",
+    glow: "radial-gradient(780px 320px at 50% 58%, rgba(0,158,79,0.22), transparent 60%)",
+    foreground: "#f9fafb",
+    muted: "#9ca3af",
+    textShadow: "0 4px 14px rgba(0,0,0,0.5)",
+    avatarRing: "#1f2937",
+    avatarFallback: "#009e4f",
+    badge: "#009e4f",
+    badgeCheck: "#0b0f14",
+  },
+};
+
+export function isOgTheme(value: unknown): value is OgThemeName {
+  // own keys only: "constructor" or "toString" must not pass
+  return typeof value === "string" && Object.hasOwn(OG_THEMES, value);
+}
+
+/** `requested` if it names a theme, else OG_THEME, else brand green */
+export function resolveOgTheme(requested?: string | null): OgTheme {
+  const fallback = process.env.OG_THEME;
+  if (isOgTheme(requested)) return OG_THEMES[requested];
+  return OG_THEMES[isOgTheme(fallback) ? fallback : "green"];
+}
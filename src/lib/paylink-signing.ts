@@ -0,0 +1,137 @@
+/**
+ * Signed paylink terms: a fixed amount, invoice number, memo, expiry and
+ * single-use flag travel in the paylink URL next to a `sig` HMAC so they cannot
+ * be edited by whoever holds the link. Isomorphic parsing; signing/verifying
+ * needs PAYLINK_SIGNING_SECRET and therefore only works on the server.
+ *
+ *   https://pay.guto.app/@shop?a=25000&inv=INV-042&memo=Table%203&exp=1767225600&once=1&sig=…
+ *
+ * A bare `?a=` without `sig` is not a term: it only prefills an editable amount.
+ */
+import { hmacSha256Hex, safeEqual } from "./hmac";
+
+export type PaylinkTerms = {
+  /** Major units of the recipient's currency; locks the amount on the form */
+  amount?: number;
+  invoice?: string;
+  memo?: string;
+  /** Unix seconds after which the link stops accepting payments */
+  expiresAt?: number;
+  singleUse?: boolean;
+};
+
+export type SignedTerms = PaylinkTerms & { sig: string };
+
+/** What the paylink page knows about the terms in its URL */
+export type PaylinkTermsState = {
+  status: "valid" | "expired" | "used" | "invalid";
+  terms: SignedTerms;
+};
+
+export const INVOICE_PATTERN = /^[A-Za-z0-9._/#-]{1,40}$/;
+export const MAX_MEMO_LENGTH = 140;
+const SIG_PATTERN = /^[0-9a-f]{32}$/;
+
+function secret() {
+  const s = process.env.PAYLINK_SIGNING_SECRET;
+  if (!s) throw new Error("PAYLINK_SIGNING_SECRET is not set");
+  return s;
+}
+
+/** JSON keeps separators inside memos from colliding with field boundaries */
+function canonical(handle: string, terms: PaylinkTerms) {
+  return JSON.stringify([
+    "paylink-v1",
+    handle.replace(/^@/, "").toLowerCase(),
+    terms.amount ?? null,
+    terms.invoice ?? null,
+    terms.memo ?? null,
+    terms.expiresAt ?? null,
+    terms.singleUse === true,
+  ]);
+}
+
+type RawParams = Record<string, unknown> | URLSearchParams;
+
+function read(raw: RawParams, key: string): unknown {
+  if (raw instanceof URLSearchParams) return raw.get(key) ?? undefined;
+  const v = raw[key];
+  return Array.isArray(v) ? v[0] : v;
+}
+
+/**
+ * Reads signed terms from URL params (`a`, `inv`, `memo`, `exp`, `once`, `sig`)
+ * or a request body with the same keys. Null when none are present (`a` alone
+ * does not count); "malformed" when they are present but cannot be valid.
+ */
+export function parseSignedTerms(raw: RawParams): SignedTerms | "malformed" | null {
+  const inv = read(raw, "inv");
+  const memo = read(raw, "memo");
+  const exp = read(raw, "exp");
+  const once = read(raw, "once");
+  const sig = read(raw, "sig");
+  if ([inv, memo, exp, once, sig].every((v) => v === undefined || v === null || v === "")) return null;
+
+  if (typeof sig !== "string" || !SIG_PATTERN.test(sig)) return "malformed";
+
+  const terms: SignedTerms = { sig };
+  const a = read(raw, "a");
+  if (a !== undefined && a !== "") {
+    const n = Number(a);
+    if (!Number.isFinite(n) || n <= 0) return "malformed";
+    terms.amount = n;
+  }
+  if (inv !== undefined && inv !== "") {
+    if (typeof inv !== "string" || !INVOICE_PATTERN.test(inv)) return "malformed";
+    terms.invoice = inv;
+  }
+  if (memo !== undefined && memo !== "") {
+    const m = typeof memo === "string" ? memo.trim() : "";
+    if (!m || m.length > MAX_MEMO_LENGTH || /[\u0000-\u001f]/.test(m)) return "malformed";
+    terms.memo = m;
+  }
+  if (exp !== undefined && exp !== "") {
+    const n = Number(exp);
+    if (!Number.isInteger(n) || n <= 0) return "malformed";
+    terms.expiresAt = n;
+  }
+  if (once === "1" || once === true) terms.singleUse = true;
+  return terms;
+}
+
+/** URL params for a signed paylink; pass the result to buildPaylink */
+export function signedTermsParams(terms: SignedTerms): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (terms.amount) params.a = String(terms.amount);
+  if (terms.invoice) params.inv = terms.invoice;
+  if (terms.memo) params.memo = terms.memo;
+  if (terms.expiresAt) params.exp = String(terms.expiresAt);
+  if (terms.singleUse) params.once = "1";
+  params.sig = terms.sig;
+  return params;
+}
+
+export async function signPaylinkTerms(handle: string, terms: PaylinkTerms): Promise<SignedTerms> {
+  const sig = (await hmacSha256Hex(secret(), canonical(handle, terms))).slice(0, 32);
+  return { ...terms, sig };
+}
+
+/** Signature and expiry only; single-use state lives in ~/lib/paylink-terms */
+export async function verifyPaylinkTerms(
+  handle: string,
+  terms: SignedTerms,
+  now = Date.now()
+): Promise<"valid" | "expired" | "invalid"> {
+  const { sig, ...unsigned } = terms;
+  const expected = (await hmacSha256Hex(secret(), canonical(handle, unsigned))).slice(0, 32);
+  if (!safeEqual(sig, expected)) return "invalid";
+  if (terms.expiresAt && terms.expiresAt * 1000 <= now) return "expired";
+  return "valid";
+}
+
+/** Gateway memo: "Invoice INV-042: Table 3" */
+export function describeTerms(terms: PaylinkTerms): string | null {
+  if (terms.invoice && terms.memo) return `Invoice ${terms.invoice}: ${terms.memo}`;
+  if (terms.invoice) return `Invoice ${terms.invoice}`;
+  return terms.memo ?? null;
+}
@@ -0,0 +1,78 @@
+import { type LedgerEntry, ledger } from "./ledger";
+import { type PaylinkTermsState, type SignedTerms, verifyPaylinkTerms } from "./paylink-signing";
+import { hasUpstash, redis } from "./redis";
+
+const SINGLE_USE_TTL_SECONDS = 60 * 60 * 24 * 365;
+
+/** States that free a single-use link for another attempt */
+const RELEASED_STATES: LedgerEntry["state"][] = ["failed", "error", "cancelled"];
+
+const claimKey = (sig: string) => `paylink:single-use:${sig}`;
+
+/** Claims live in Redis, or in process memory without Upstash */
+interface ClaimStore {
+  get(key: string): Promise<string | null>;
+  /** With `nx`, only when unclaimed; true when written */
+  set(key: string, tx: string, nx: boolean): Promise<boolean>;
+}
+
+function redisClaimStore(): ClaimStore {
+  return {
+    get: (key) => redis.get<string>(key),
+    async set(key, tx, nx) {
+      const ok = nx
+        ? await redis.set(key, tx, { nx: true, ex: SINGLE_USE_TTL_SECONDS })
+        : await redis.set(key, tx, { ex: SINGLE_USE_TTL_SECONDS });
+      return ok === "OK";
+    },
+  };
+}
+
+function memoryClaimStore(): ClaimStore {
+  const claims = new Map<string, string>();
+  return {
+    async get(key) {
+      return claims.get(key) ?? null;
+    },
+    async set(key, tx, nx) {
+      if (nx && claims.has(key)) return false;
+      claims.set(key, tx);
+      return true;
+    },
+  };
+}
+
+const claims = hasUpstash ? redisClaimStore() : memoryClaimStore();
+
+/** Payment currently holding a single-use link, if it has not failed */
+async function holder(sig: string): Promise<LedgerEntry | null> {
+  const tx = await claims.get(claimKey(sig));
+  const entry = tx ? await ledger.get(tx) : null;
+  return entry && !RELEASED_STATES.includes(entry.state) ? entry : null;
+}
+
+/** Signature, expiry and (for single-use links) whether it was already paid */
+export async function checkPaylinkTerms(
+  handle: string,
+  terms: SignedTerms
+): Promise<PaylinkTermsState> {
+  const status = await verifyPaylinkTerms(handle, terms).catch((err) => {
+    console.error("❗ paylink terms error:", err);
+    return "invalid" as const;
+  });
+  if (status !== "valid" || !terms.singleUse) return { status, terms };
+  return { status: (await holder(terms.sig)) ? "used" : "valid", terms };
+}
+
+/**
+ * Reserves a single-use link for payment `tx`. Succeeds again for the same tx
+ * (idempotent replays) and takes over a claim whose payment did not go through.
+ */
+export async function claimSingleUse(sig: string, tx: string): Promise<boolean> {
+  if (await claims.set(claimKey(sig), tx, true)) return true;
+
+  const current = await holder(sig);
+  if (current && current.tx !== tx) return false;
+  await claims.set(claimKey(sig), tx, false);
+  return true;
+}
@@ -0,0 +1,35 @@
+/** Public paylink origin; all shared links and QR codes point here */
+export const PAYLINK_ORIGIN = "https://pay.guto.app";
+
+/** This deployment's origin, for canonical URLs, the sitemap and OG images */
+export function siteUrl(path = "/") {
+  const env =
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "");
+  const base = env.replace(/\/+$/, "") || "http://localhost:3000"; // local fallback
+  return `${base}${path.startsWith("/") ? "" : "/"}${path}`;
+}
+
+/** `params` carries extra query parameters, e.g. signed terms from paylink-signing.ts */
+export function buildPaylink(handle: string, amount?: number, params?: Record<string, string>) {
+  const cleanHandle = handle.replace(/^@/, "");
+  const url = new URL(`${PAYLINK_ORIGIN}/@${cleanHandle}`);
+  if (amount && amount > 0) url.searchParams.set("a", String(amount));
+  for (const [key, value] of Object.entries(params ?? {})) url.searchParams.set(key, value);
+  return url.toString();
+}
+
+/** Public, verifiable receipt page for a paid transaction */
+export function buildReceiptUrl(tx: string, code?: string) {
+  const url = new URL(`${PAYLINK_ORIGIN}/r/${encodeURIComponent(tx)}`);
+  if (code) url.searchParams.set("v", code);
+  return url.toString();
+}
+
+/** One-time sign-in link emailed to a recipient; `next` is a same-site path */
+export function buildLoginUrl(token: string, next?: string) {
+  const url = new URL(`${PAYLINK_ORIGIN}/api/auth/callback`);
+  url.searchParams.set("token", token);
+  if (next) url.searchParams.set("next", next);
+  return url.toString();
+}
@@ -0,0 +1,16 @@
+import { kv } from "./redis";
+
+const RECEIPT_FLAG_TTL_SECONDS = 60 * 60 * 24;
+
+/** Claims the one-time "receipt sent" flag; false if another request already did */
+export async function claimReceiptSend(transactionId: string): Promise<boolean> {
+  return kv.set(`paylink:receipt-sent:${transactionId}`, 1, {
+    nx: true,
+    ex: RECEIPT_FLAG_TTL_SECONDS,
+  });
+}
+
+/** Gives the flag back so a later request can retry a failed delivery */
+export async function releaseReceiptSend(transactionId: string) {
+  await kv.del(`paylink:receipt-sent:${transactionId}`);
+}
@@ -0,0 +1,111 @@
+/**
+ * Minimal single-page PDF writer for text documents (receipts, statements).
+ * Uses the built-in Helvetica fonts in WinAnsi encoding, so no font
+ * embedding: Intl's narrow and no-break spaces become plain spaces, accents
+ * without a WinAnsi glyph are dropped and anything else left becomes "?".
+ */
+export type PdfLine = {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  /** Grey label colour instead of black */
+  muted?: boolean;
+  /** Extra space above this line, in points */
+  gap?: number;
+};
+
+export type PdfOptions = {
+  title: string;
+  lines: PdfLine[];
+  /** Page size in points; defaults to A5 portrait */
+  width?: number;
+  height?: number;
+  margin?: number;
+  /** Header band colour as 0–1 RGB */
+  accent?: [number, number, number];
+};
+
+/** WinAnsi codes of the characters it has beyond Latin-1 */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "ˆ": 0x88,
+  "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91, "’": 0x92, "“": 0x93,
+  "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "˜": 0x98, "™": 0x99, "š": 0x9a, "›": 0x9b,
+  "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+/** Spaces Intl puts in formatted amounts and dates (U+00A0, U+202F, …) */
+const UNICODE_SPACES = /[\u00a0\u2000-\u200a\u202f\u205f\u3000]/g;
+
+/** Letters with no WinAnsi glyph and no accent to drop (Luganda "ŋ") */
+const LETTER_FALLBACKS: Record<string, string> = { ŋ: "ng", Ŋ: "Ng" };
+
+const isWinAnsi = (code: number) => (code >= 0x20 && code <= 0x7e) || (code >= 0xa1 && code <= 0xff);
+
+function toWinAnsi(s: string) {
+  return Array.from(s.replace(UNICODE_SPACES, " "), (c) => {
+    if (c in WIN_ANSI_EXTRAS) return String.fromCharCode(WIN_ANSI_EXTRAS[c]);
+    if (isWinAnsi(c.charCodeAt(0))) return c;
+    if (c in LETTER_FALLBACKS) return LETTER_FALLBACKS[c];
+    const base = c.normalize("NFD")[0];
+    return isWinAnsi(base.charCodeAt(0)) ? base : "?";
+  }).join("");
+}
+
+function pdfString(s: string) {
+  return `(${toWinAnsi(s).replace(/[\\()]/g, (c) => `\\${c}`)})`;
+}
+
+function toBytes(s: string) {
+  const out = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i) & 0xff;
+  return out;
+}
+
+export function buildTextPdf({
+  title,
+  lines,
+  width = 420,
+  height = 595,
+  margin = 36,
+  accent = [0, 0.62, 0.31],
+}: PdfOptions): Uint8Array {
+  const ops: string[] = [];
+
+  // header band
+  ops.push(`${accent.join(" ")} rg 0 ${height - 12} ${width} 12 re f`);
+
+  let y = height - margin - 12;
+  for (const line of lines) {
+    const size = line.size ?? 11;
+    y -= (line.gap ?? 0) + size * 1.35;
+    const color = line.muted ? "0.42 0.45 0.5 rg" : "0.07 0.09 0.15 rg";
+    ops.push(
+      `BT ${color} /${line.bold ? "F2" : "F1"} ${size} Tf 1 0 0 1 ${margin} ${y.toFixed(2)} Tm ${pdfString(line.text)} Tj ET`
+    );
+  }
+  const content = ops.join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    `<< /Title ${pdfString(title)} /Producer (Guto) >>`,
+  ];
+
+  let body = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  objects.forEach((obj, i) => {
+    offsets.push(body.length);
+    body += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+  });
+
+  const xrefAt = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+
+  return toBytes(body);
+}
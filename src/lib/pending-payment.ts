@@ -0,0 +1,66 @@
+/**
+ * Browser-side memory of an unfinished paylink payment, so a reload or a retry
+ * after a timeout reuses the same idempotency key instead of charging twice.
+ * Stored in sessionStorage per handle; entries expire after PENDING_TTL_MS.
+ */
+export type StoredPayment = {
+  tx: string;
+  handle: string;
+  amount: number;
+  payerMsisdn: string;
+  transactionId?: string | null;
+  createdAt: number;
+};
+
+const PENDING_TTL_MS = 30 * 60 * 1000;
+
+const key = (handle: string) => `guto:paylink:${handle.replace(/^@/, "").toLowerCase()}`;
+
+function storage(): Storage | null {
+  try {
+    return typeof window !== "undefined" ? window.sessionStorage : null;
+  } catch {
+    return null; // blocked (private mode, sandboxed iframe)
+  }
+}
+
+export function loadPendingPayment(handle: string): StoredPayment | null {
+  const raw = storage()?.getItem(key(handle));
+  if (!raw) return null;
+  try {
+    const p = JSON.parse(raw) as StoredPayment;
+    if (!p?.tx || Date.now() - p.createdAt > PENDING_TTL_MS) {
+      clearPendingPayment(handle);
+      return null;
+    }
+    return p;
+  } catch {
+    clearPendingPayment(handle);
+    return null;
+  }
+}
+
+export function savePendingPayment(p: StoredPayment) {
+  storage()?.setItem(key(p.handle), JSON.stringify(p));
+}
+
+export function clearPendingPayment(handle: string) {
+  storage()?.removeItem(key(handle));
+}
+
+/** UUID v4 (uses crypto.randomUUID when available) */
+export function uuidv4(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  const b = new Uint8Array(16);
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    crypto.getRandomValues(b);
+  } else {
+    for (let i = 0; i < 16; i++) b[i] = Math.floor(Math.random() * 256);
+  }
+  b[6] = (b[6] & 0x0f) | 0x40;
+  b[8] = (b[8] & 0x3f) | 0x80;
+  const h = Array.from(b, (x) => x.toString(16).padStart(2, "0"));
+  return `${h[0]}${h[1]}${h[2]}${h[3]}-${h[4]}${h[5]}-${h[6]}${h[7]}-${h[8]}${h[9]}-${h[10]}${h[11]}${h[12]}${h[13]}${h[14]}${h[15]}`;
+}
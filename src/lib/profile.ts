@@ -0,0 +1,265 @@
+import { after } from "next/server";
+import { cache } from "react";
+
+import { normalizeHandleParam } from "./handle";
+import { hasUpstash, redis } from "./redis";
+
+export { normalizeHandleParam };
+
+/**
+ * Raw profile record as returned by /api/profiles/by-username. The API also
+ * resolves aliases and previous usernames, returning the profile under its
+ * current `username`.
+ */
+export type PublicProfile = {
+  /** Current handle */
+  username?: string;
+  name?: string;
+  phone?: string | null;
+  gutokey?: string;
+  logo?: string | null;
+  email?: string | null;
+  /** ISO 3166 alpha-2; selects the numbering plan (defaults to UG) */
+  country?: string | null;
+  /** ISO 4217; defaults to the country's currency */
+  currency?: string | null;
+  /** Identity-checked recipient; profiles without the flag count as verified */
+  verified?: boolean | null;
+  /** Set by Guto support to stop a paylink taking payments */
+  status?: "active" | "suspended" | null;
+};
+
+/**
+ * What a paylink page can do with a handle:
+ *   found       complete profile, takes payments
+ *   incomplete  exists but lacks a name, phone or gutokey; shown, not indexed, no form
+ *   suspended   turned off by support; shown, not indexed, no form
+ *   moved       an alias or previous username; pages redirect permanently to `to`
+ *   not-found   unknown handle; pages call notFound()
+ */
+export type ProfileState =
+  | { status: "not-found"; handle: string }
+  | { status: "moved"; handle: string; to: string }
+  | { status: "found" | "incomplete" | "suspended"; handle: string; profile: PublicProfile };
+
+export type ProfileStatus = ProfileState["status"];
+
+/** Props the landing page renders; never carries the gutokey or phone */
+export type UserProfile = {
+  name: string;
+  handle?: string;
+  avatarUrl?: string;
+  verified?: boolean;
+  /** ISO alpha-2; selects the mobile numbering plan (defaults to UG) */
+  country?: string;
+  /** ISO 4217; defaults to the country's currency */
+  currency?: string;
+  status: Exclude<ProfileStatus, "not-found" | "moved">;
+};
+
+/* ---------------- cache ---------------- */
+/**
+ * Profiles are cached in Redis (or process memory without Upstash) and served
+ * stale-while-revalidate: fresh for FRESH_SECONDS, then returned as-is while a
+ * background refresh runs, until the entry expires after STALE_SECONDS.
+ * Unknown handles are cached too, briefly, so probing them doesn't hit the API.
+ */
+const FRESH_SECONDS = 60;
+const STALE_SECONDS = 60 * 10;
+const MISSING_FRESH_SECONDS = 30;
+const MISSING_STALE_SECONDS = 60 * 2;
+const REFRESH_LOCK_SECONDS = 10;
+
+type CachedProfile = { profile: PublicProfile | null; fetchedAt: number };
+
+interface ProfileCacheStore {
+  get(key: string): Promise<CachedProfile | null>;
+  set(key: string, value: CachedProfile, ttlSeconds: number): Promise<void>;
+  del(key: string): Promise<void>;
+  /** true when this caller took the lock */
+  lock(key: string, ttlSeconds: number): Promise<boolean>;
+}
+
+function redisProfileStore(): ProfileCacheStore {
+  return {
+    get: (key) => redis.get<CachedProfile>(key),
+    async set(key, value, ttlSeconds) {
+      await redis.set(key, value, { ex: ttlSeconds });
+    },
+    async del(key) {
+      await redis.del(key);
+    },
+    async lock(key, ttlSeconds) {
+      return (await redis.set(key, "1", { nx: true, ex: ttlSeconds })) === "OK";
+    },
+  };
+}
+
+function memoryProfileStore(): ProfileCacheStore {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+  const live = (key: string) => {
+    const e = entries.get(key);
+    if (e && e.expiresAt > Date.now()) return e;
+    entries.delete(key);
+    return null;
+  };
+  return {
+    async get(key) {
+      return (live(key)?.value as CachedProfile | undefined) ?? null;
+    },
+    async set(key, value, ttlSeconds) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+    async del(key) {
+      entries.delete(key);
+    },
+    async lock(key, ttlSeconds) {
+      if (live(key)) return false;
+      entries.set(key, { value: "1", expiresAt: Date.now() + ttlSeconds * 1000 });
+      return true;
+    },
+  };
+}
+
+const store = hasUpstash ? redisProfileStore() : memoryProfileStore();
+
+const cacheKey = (handle: string) => `profile:v1:${handle}`;
+
+/** null for unknown handles (404 or no data); throws when the API can't be reached */
+async function fetchProfileFromApi(handle: string): Promise<PublicProfile | null> {
+  const apiBase = process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL;
+  if (!apiBase) return null;
+
+  const res = await fetch(`${apiBase}/api/profiles/by-username/${encodeURIComponent(handle)}`, {
+    cache: "no-store",
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Profile API error ${res.status}`);
+  const json = await res.json().catch(() => null);
+  return json?.data ?? null;
+}
+
+async function refresh(handle: string): Promise<PublicProfile | null> {
+  const profile = await fetchProfileFromApi(handle);
+  const ttl = profile ? STALE_SECONDS : MISSING_STALE_SECONDS;
+  await store
+    .set(cacheKey(handle), { profile, fetchedAt: Date.now() }, ttl)
+    .catch((err) => console.error("❗ profile cache write error:", err));
+  return profile;
+}
+
+/** Runs after the response when possible, so stale reads stay fast */
+function refreshInBackground(handle: string) {
+  const run = async () => {
+    if (!(await store.lock(`${cacheKey(handle)}:refresh`, REFRESH_LOCK_SECONDS))) return;
+    await refresh(handle).catch((err) => console.error("❗ profile refresh error:", err));
+  };
+  try {
+    after(run);
+  } catch {
+    // outside a request scope (scripts, tests)
+    void run();
+  }
+}
+
+/** Throws when the profile API is unreachable and nothing is cached */
+async function resolveProfile(handle: string, fresh: boolean): Promise<PublicProfile | null> {
+  if (!handle) return null;
+
+  const cached = fresh ? null : await store.get(cacheKey(handle)).catch(() => null);
+  if (cached) {
+    const freshFor = (cached.profile ? FRESH_SECONDS : MISSING_FRESH_SECONDS) * 1000;
+    if (Date.now() - cached.fetchedAt > freshFor) refreshInBackground(handle);
+    return cached.profile;
+  }
+  return refresh(handle);
+}
+
+/** Memoized per request: metadata, page and OG image share one lookup */
+const cachedProfile = cache((handle: string) => resolveProfile(handle, false));
+const freshProfile = cache((handle: string) => resolveProfile(handle, true));
+
+export function classifyProfile(handle: string, profile: PublicProfile | null): ProfileState {
+  if (!profile) return { status: "not-found", handle };
+  const current = profile.username ? normalizeHandleParam(profile.username) : handle;
+  if (current && current !== handle) return { status: "moved", handle, to: current };
+  if (profile.status === "suspended") return { status: "suspended", handle, profile };
+  if (!profile.name?.trim() || !profile.phone?.trim() || !profile.gutokey) {
+    return { status: "incomplete", handle, profile };
+  }
+  return { status: "found", handle, profile };
+}
+
+/**
+ * Profile state for a paylink page. Unlike fetchUserPublic this throws when the
+ * profile API is down, so an outage renders an error instead of a 404.
+ */
+export async function fetchProfileState(handle: string): Promise<ProfileState> {
+  return classifyProfile(handle, await cachedProfile(handle));
+}
+
+/** "marigo65" -> "Marigo65", "john.doe" -> "John Doe" */
+function displayNameFromHandle(handle: string) {
+  const spaced = handle.replace(/[_.-]+/g, " ");
+  return spaced.replace(/\b\w/g, (c) => c.toUpperCase()) || "User";
+}
+
+export function toUserProfile(state: Extract<ProfileState, { profile: PublicProfile }>): UserProfile {
+  const { profile, handle } = state;
+  return {
+    name: profile.name?.trim() || displayNameFromHandle(handle),
+    handle: `@${handle}`,
+    avatarUrl: profile.logo || undefined,
+    verified: state.status === "found" && profile.verified === true,
+    country: profile.country || undefined,
+    currency: profile.currency || undefined,
+    status: state.status,
+  };
+}
+
+/**
+ * Public profile for a handle, or null when unknown or unreachable.
+ * Pass `fresh` where stale data would be wrong, e.g. before routing money to
+ * the profile's phone number; the result still refreshes the cache.
+ */
+export async function fetchUserPublic(
+  handle: string,
+  opts: { fresh?: boolean } = {}
+): Promise<PublicProfile | null> {
+  try {
+    return await (opts.fresh ? freshProfile(handle) : cachedProfile(handle));
+  } catch (err) {
+    console.error("❗ profile fetch error:", err);
+    return null;
+  }
+}
+
+const LISTING_PAGE_SIZE = 500;
+
+/**
+ * Every profile the API lists as public (GET /api/profiles/public, cursor
+ * paginated), straight from the API; the sitemap filters them further.
+ */
+export async function* iteratePublicProfiles(): AsyncGenerator<PublicProfile> {
+  const apiBase = process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL;
+  if (!apiBase) return;
+
+  let cursor: string | undefined;
+  do {
+    const url = new URL(`${apiBase}/api/profiles/public`);
+    url.searchParams.set("limit", String(LISTING_PAGE_SIZE));
+    if (cursor) url.searchParams.set("cursor", cursor);
+
+    const res = await fetch(url, { cache: "no-store" });
+    if (!res.ok) throw new Error(`Profile API error ${res.status}`);
+    const json = await res.json().catch(() => null);
+    const page: PublicProfile[] = Array.isArray(json?.data) ? json.data : [];
+    yield* page;
+    cursor = typeof json?.nextCursor === "string" && page.length ? json.nextCursor : undefined;
+  } while (cursor);
+}
+
+/** Drops the cached profile; the next lookup goes to the API */
+export async function invalidateProfile(handle: string): Promise<void> {
+  await store.del(cacheKey(handle));
+}
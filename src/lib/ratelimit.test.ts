@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+
+import { checkRateLimits } from "./ratelimit";
+
+const request = (path: string, method = "GET", ip = "203.0.113.7") =>
+  new NextRequest(`https://pay.example${path}`, { method, headers: { "x-forwarded-for": ip } });
+
+describe("route rate limits", () => {
+  it("guards the gateway, rendering and export routes", async () => {
+    const cases: [string, string, string][] = [
+      ["/api/transactions/gw-1", "GET", "transactions-ip"],
+      ["/api/transactions/gw-1/events", "GET", "transactions-ip"],
+      ["/api/receipts/tx-1", "GET", "receipts-ip"],
+      ["/api/receipts", "POST", "receipt-mail-ip"],
+      ["/api/paylinks", "POST", "paylinks-ip"],
+      ["/api/exports", "GET", "exports-ip"],
+      ["/api/profiles/revalidate", "POST", "revalidate-ip"],
+    ];
+    for (const [path, method, policy] of cases) {
+      expect((await checkRateLimits(request(path, method)))?.policy, path).toBe(policy);
+    }
+  });
+
+  it("refuses requests past the limit", async () => {
+    const results = [];
+    for (let i = 0; i < 6; i++) {
+      results.push(await checkRateLimits(request("/api/receipts", "POST", "198.51.100.1")));
+    }
+    expect(results.map((r) => r?.success)).toEqual([true, true, true, true, true, false]);
+  });
+});
@@ -0,0 +1,214 @@
+import type { NextRequest } from "next/server";
+import { Ratelimit } from "@upstash/ratelimit";
+
+import { normalizeMsisdn } from "./msisdn";
+import { hasUpstash, redis } from "./redis";
+
+/**
+ * Named rate-limit policies, applied to API routes by middleware.ts. Each
+ * policy counts requests per key (client IP, payer MSISDN or paylink handle)
+ * in a sliding window. Upstash Redis backs the counters; without its env vars
+ * they live in process memory, which is fine for local runs only.
+ */
+
+export type RateLimitKey = "ip" | "payer" | "handle";
+
+export type RateLimitPolicy = {
+  key: RateLimitKey;
+  limit: number;
+  windowSeconds: number;
+};
+
+export const RATE_LIMIT_POLICIES = {
+  "mail-ip": { key: "ip", limit: 2, windowSeconds: 60 },
+  "notion-ip": { key: "ip", limit: 2, windowSeconds: 60 },
+  "login-ip": { key: "ip", limit: 2, windowSeconds: 60 },
+  "login-handle": { key: "handle", limit: 3, windowSeconds: 60 * 15 },
+  "pay-ip": { key: "ip", limit: 5, windowSeconds: 60 },
+  "pay-payer": { key: "payer", limit: 4, windowSeconds: 60 },
+  "pay-handle": { key: "handle", limit: 30, windowSeconds: 60 },
+  "payments-ip": { key: "ip", limit: 60, windowSeconds: 60 },
+  // status polling and the SSE stream both reach the gateway
+  "transactions-ip": { key: "ip", limit: 60, windowSeconds: 60 },
+  "receipts-ip": { key: "ip", limit: 30, windowSeconds: 60 },
+  "receipt-mail-ip": { key: "ip", limit: 5, windowSeconds: 60 },
+  "paylinks-ip": { key: "ip", limit: 10, windowSeconds: 60 },
+  "exports-ip": { key: "ip", limit: 10, windowSeconds: 60 },
+  "revalidate-ip": { key: "ip", limit: 60, windowSeconds: 60 },
+  "verify-ip": { key: "ip", limit: 10, windowSeconds: 60 },
+  "verify-payer": { key: "payer", limit: 5, windowSeconds: 60 },
+  "webhook-ip": { key: "ip", limit: 120, windowSeconds: 60 },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+export type RouteRateLimit = {
+  prefix: string;
+  /** All methods when omitted */
+  methods?: string[];
+  policies: RateLimitPolicyName[];
+};
+
+/** Which policies guard which API paths; the first matching prefix wins */
+export const ROUTE_RATE_LIMITS: RouteRateLimit[] = [
+  { prefix: "/api/mail", methods: ["POST"], policies: ["mail-ip"] },
+  { prefix: "/api/notion", methods: ["POST"], policies: ["notion-ip"] },
+  { prefix: "/api/auth/login", methods: ["POST"], policies: ["login-ip", "login-handle"] },
+  { prefix: "/api/pay", methods: ["POST"], policies: ["pay-ip", "pay-payer", "pay-handle"] },
+  { prefix: "/api/payments/", policies: ["payments-ip"] },
+  { prefix: "/api/transactions/", policies: ["transactions-ip"] },
+  { prefix: "/api/receipts/", policies: ["receipts-ip"] },
+  { prefix: "/api/receipts", methods: ["POST"], policies: ["receipt-mail-ip"] },
+  { prefix: "/api/paylinks", methods: ["POST"], policies: ["paylinks-ip"] },
+  { prefix: "/api/exports", policies: ["exports-ip"] },
+  { prefix: "/api/profiles/revalidate", methods: ["POST"], policies: ["revalidate-ip"] },
+  { prefix: "/api/verify", methods: ["POST"], policies: ["verify-ip", "verify-payer"] },
+  { prefix: "/api/webhooks/", policies: ["webhook-ip"] },
+];
+
+export type RateLimitResult = {
+  policy: RateLimitPolicyName;
+  success: boolean;
+  limit: number;
+  remaining: number;
+  /** Epoch ms when the window frees up again */
+  reset: number;
+  windowSeconds: number;
+};
+
+/* ---------------- backends ---------------- */
+interface RateLimitBackend {
+  limit(id: string): Promise<{ success: boolean; limit: number; remaining: number; reset: number }>;
+}
+
+function upstashBackend(name: string, policy: RateLimitPolicy): RateLimitBackend {
+  const limiter = new Ratelimit({
+    redis,
+    prefix: `ratelimit:${name}`,
+    limiter: Ratelimit.slidingWindow(policy.limit, `${policy.windowSeconds} s`),
+  });
+  return { limit: (id) => limiter.limit(id) };
+}
+
+/**
+ * Sliding log per key; old timestamps are dropped as keys are touched, and
+ * keys whose window has passed are swept at most once per window.
+ */
+function memoryBackend(policy: RateLimitPolicy): RateLimitBackend {
+  const hits = new Map<string, number[]>();
+  const windowMs = policy.windowSeconds * 1000;
+  let sweptAt = Date.now();
+  return {
+    async limit(id) {
+      const now = Date.now();
+      if (now - sweptAt >= windowMs) {
+        for (const [key, times] of hits) {
+          if ((times[times.length - 1] ?? 0) <= now - windowMs) hits.delete(key);
+        }
+        sweptAt = now;
+      }
+      const recent = (hits.get(id) ?? []).filter((t) => t > now - windowMs);
+      const success = recent.length < policy.limit;
+      if (success) recent.push(now);
+      hits.set(id, recent);
+      return {
+        success,
+        limit: policy.limit,
+        remaining: Math.max(0, policy.limit - recent.length),
+        reset: (recent[0] ?? now) + windowMs,
+      };
+    },
+  };
+}
+
+const backends = new Map<RateLimitPolicyName, RateLimitBackend>();
+
+function backendFor(name: RateLimitPolicyName): RateLimitBackend {
+  let backend = backends.get(name);
+  if (!backend) {
+    const policy = RATE_LIMIT_POLICIES[name];
+    backend = hasUpstash ? upstashBackend(name, policy) : memoryBackend(policy);
+    backends.set(name, backend);
+  }
+  return backend;
+}
+
+/* ---------------- keys ---------------- */
+/** First hop of x-forwarded-for, then x-real-ip, then loopback */
+export function getClientIp(request: NextRequest): string {
+  const xForwardedForHeader = request.headers.get("x-forwarded-for");
+
+  if (xForwardedForHeader) {
+    return xForwardedForHeader.split(",")[0].trim();
+  }
+  return request.headers.get("x-real-ip")?.trim() ?? "127.0.0.1";
+}
+
+/** Payer and handle come from the JSON body, read from a clone so the route still gets it */
+async function keysOf(
+  request: NextRequest,
+  needsBody: boolean
+): Promise<Partial<Record<RateLimitKey, string>>> {
+  const keys: Partial<Record<RateLimitKey, string>> = { ip: getClientIp(request) };
+  if (!needsBody) return keys;
+
+  const body = await request.clone().json().catch(() => null);
+  const payer = typeof body?.mobile === "string" ? normalizeMsisdn(body.mobile) : null;
+  const handle =
+    typeof body?.handle === "string" ? body.handle.trim().replace(/^@/, "").toLowerCase() : "";
+  if (payer) keys.payer = payer;
+  if (handle) keys.handle = handle;
+  return keys;
+}
+
+/* ---------------- checks ---------------- */
+export async function limitPolicy(name: RateLimitPolicyName, id: string): Promise<RateLimitResult> {
+  const { windowSeconds } = RATE_LIMIT_POLICIES[name];
+  const { success, limit, remaining, reset } = await backendFor(name).limit(id);
+  return { policy: name, success, limit, remaining, reset, windowSeconds };
+}
+
+/**
+ * Runs every policy guarding the request's route and returns the binding
+ * result (the first failure, else the one with the least room left), or
+ * null when no policy applies. Policies whose key is missing from the
+ * request are skipped; the route rejects such bodies anyway.
+ */
+export async function checkRateLimits(request: NextRequest): Promise<RateLimitResult | null> {
+  const { pathname } = request.nextUrl;
+  // "/api/pay" guards "/api/pay" and "/api/pay/…" but not "/api/paylinks"
+  const matches = (prefix: string) =>
+    prefix.endsWith("/")
+      ? pathname.startsWith(prefix)
+      : pathname === prefix || pathname.startsWith(`${prefix}/`);
+  const route = ROUTE_RATE_LIMITS.find(
+    (r) => matches(r.prefix) && (!r.methods || r.methods.includes(request.method))
+  );
+  if (!route) return null;
+
+  const needsBody = route.policies.some((p) => RATE_LIMIT_POLICIES[p].key !== "ip");
+  const keys = await keysOf(request, needsBody);
+
+  let binding: RateLimitResult | null = null;
+  for (const name of route.policies) {
+    const id = keys[RATE_LIMIT_POLICIES[name].key];
+    if (!id) continue;
+    const result = await limitPolicy(name, id);
+    if (!result.success) return result;
+    if (!binding || result.remaining < binding.remaining) binding = result;
+  }
+  return binding;
+}
+
+/** RateLimit-* fields (IETF draft) plus Retry-After once the limit is hit */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.reset - Date.now()) / 1000));
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(resetSeconds),
+    "RateLimit-Policy": `${result.limit};w=${result.windowSeconds}`,
+  };
+  if (!result.success) headers["Retry-After"] = String(Math.max(1, resetSeconds));
+  return headers;
+}
@@ -0,0 +1,180 @@
+/**
+ * Satori (next/og) version of buildReceiptSVG's layout, for server-side PNGs.
+ * Satori needs explicit flex layout on every element with children.
+ */
+import { truncateRef } from "./receipt";
+
+export type ReceiptCardProps = {
+  amountText: string;
+  recipientName: string;
+  handle: string;
+  paylink: string;
+  tx: string;
+  providerTx?: string | null;
+  paidAt: string;
+  /** Masked by receiptView: the card is public */
+  payerMsisdn: string;
+  invoiceNumber?: string | null;
+  memo?: string | null;
+  verifyCode?: string;
+  labels: {
+    title: string;
+    amount: string;
+    recipient: string;
+    paidAt: string;
+    reference: string;
+    providerRef: string;
+    from: string;
+    invoice: string;
+    memo: string;
+    paylink: string;
+    verification: string;
+    poweredBy: string;
+  };
+  brand?: { name: string; green: string };
+};
+
+export const RECEIPT_IMAGE_SIZE = { width: 1080, height: 1080 };
+
+const label = { fontSize: 26, color: "#6b7280" } as const;
+const value = { fontSize: 30, fontWeight: 700, color: "#111827" } as const;
+
+export function ReceiptCard({
+  amountText,
+  recipientName,
+  handle,
+  paylink,
+  tx,
+  providerTx,
+  paidAt,
+  payerMsisdn,
+  invoiceNumber,
+  memo,
+  verifyCode,
+  labels,
+  brand = { name: "Guto", green: "#009e4f" },
+}: ReceiptCardProps) {
+  return (
+    <div
+      style={{
+        width: 1080,
+        height: 1080,
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        position: "relative",
+        background: `linear-gradient(135deg, ${brand.green}, #0a8a46)`,
+        fontFamily: 'Inter, ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Arial',
+      }}
+    >
+      {/* PAID badge */}
+      <div
+        style={{
+          position: "absolute",
+          top: 120,
+          left: 370,
+          width: 340,
+          height: 80,
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          transform: "rotate(-18deg)",
+          borderRadius: 16,
+          border: "3px solid #ffffff",
+          background: "rgba(255,255,255,0.18)",
+          color: brand.green,
+          fontSize: 48,
+          fontWeight: 900,
+        }}
+      >
+        PAID
+      </div>
+
+      <div
+        style={{
+          width: 900,
+          height: 820,
+          marginTop: 40,
+          display: "flex",
+          flexDirection: "column",
+          padding: "48px 40px",
+          borderRadius: 28,
+          background: "#ffffff",
+          border: "1px solid #e5e7eb",
+          boxShadow: "0 14px 36px rgba(0,0,0,0.25)",
+        }}
+      >
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div style={{ fontSize: 40, fontWeight: 900, color: "#111827" }}>{labels.title}</div>
+          <div style={{ width: 265, height: 8, marginTop: 6, borderRadius: 4, background: brand.green }} />
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", marginTop: 40 }}>
+          <div style={{ ...label, fontSize: 28 }}>{labels.amount}</div>
+          <div style={{ fontSize: 96, fontWeight: 900, color: "#111827", lineHeight: 1.1 }}>{amountText}</div>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", marginTop: 24 }}>
+          <div style={{ ...label, fontSize: 28 }}>{labels.recipient}</div>
+          <div style={{ fontSize: 44, fontWeight: 800, color: "#111827" }}>{recipientName}</div>
+          <div style={{ fontSize: 28, color: "#374151" }}>{handle}</div>
+        </div>
+
+        <div style={{ display: "flex", marginTop: 24 }}>
+          <div style={{ display: "flex", flexDirection: "column", width: 420 }}>
+            <div style={label}>{labels.paidAt}</div>
+            <div style={value}>{paidAt}</div>
+          </div>
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={label}>{labels.reference}</div>
+            <div style={value}>{truncateRef(tx, 15)}</div>
+          </div>
+        </div>
+
+        <div style={{ display: "flex", marginTop: 20 }}>
+          <div style={{ display: "flex", flexDirection: "column", width: 420 }}>
+            <div style={label}>{labels.from}</div>
+            <div style={{ ...value, fontWeight: 400 }}>+{payerMsisdn}</div>
+          </div>
+          {providerTx ? (
+            <div style={{ display: "flex", flexDirection: "column" }}>
+              <div style={label}>{labels.providerRef}</div>
+              <div style={value}>{truncateRef(providerTx, 15)}</div>
+            </div>
+          ) : null}
+        </div>
+
+        {invoiceNumber || memo ? (
+          <div style={{ display: "flex", marginTop: 20 }}>
+            <div style={{ display: "flex", flexDirection: "column", width: 420 }}>
+              <div style={label}>{labels.invoice}</div>
+              <div style={value}>{invoiceNumber ? truncateRef(invoiceNumber, 15) : "—"}</div>
+            </div>
+            {memo ? (
+              <div style={{ display: "flex", flexDirection: "column" }}>
+                <div style={label}>{labels.memo}</div>
+                <div style={{ ...value, fontWeight: 400 }}>{truncateRef(memo, 26)}</div>
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        <div style={{ display: "flex", flexDirection: "column", marginTop: 20 }}>
+          <div style={{ ...label, fontSize: 22 }}>{labels.paylink}</div>
+          <div style={{ fontSize: 26, color: "#111827" }}>{paylink}</div>
+        </div>
+
+        {verifyCode ? (
+          <div style={{ display: "flex", marginTop: "auto", fontSize: 20, color: "#6b7280" }}>
+            {labels.verification}&nbsp;<span style={{ fontWeight: 700, color: "#111827" }}>{verifyCode}</span>
+          </div>
+        ) : null}
+      </div>
+
+      <div style={{ display: "flex", marginTop: 30, fontSize: 22, color: "rgba(255,255,255,0.85)" }}>
+        {labels.poweredBy} {brand.name}
+      </div>
+    </div>
+  );
+}
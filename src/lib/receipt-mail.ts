@@ -0,0 +1,79 @@
+import { after } from "next/server";
+
+import PaymentReceiptEmail from "~/emails/receipt";
+import { formatMoney } from "./currency";
+import type { LedgerEntry } from "./ledger";
+import { sendMail } from "./mailer";
+import { buildReceiptUrl } from "./paylink";
+import { claimReceiptSend, releaseReceiptSend } from "./payments";
+import { fetchUserPublic } from "./profile";
+import { receiptCode } from "./receipt-signing";
+import { paidReceiptFromEntry } from "./receipt-view";
+
+export type ReceiptMailResult =
+  | { status: "sent"; sent: number }
+  | { status: "already-sent" }
+  | { status: "failed" };
+
+/**
+ * Emails the receipt to the payer (if they left an address) and notifies the
+ * recipient, once per transaction. A delivery that fails for everyone gives
+ * the once-flag back so a later trigger can retry.
+ */
+export async function sendPaidReceipts(entry: LedgerEntry): Promise<ReceiptMailResult> {
+  const flagId = entry.transactionId ?? entry.tx;
+  if (!(await claimReceiptSend(flagId))) return { status: "already-sent" };
+
+  const receipt = paidReceiptFromEntry(entry);
+  const profile = await fetchUserPublic(entry.handle);
+  const amountText = formatMoney(receipt.amount, receipt.currency);
+  const receiptUrl = buildReceiptUrl(entry.tx, await receiptCode(entry).catch(() => undefined));
+  const deliveries: Promise<{ id: string }>[] = [];
+
+  if (entry.payerEmail) {
+    deliveries.push(
+      sendMail({
+        to: entry.payerEmail,
+        subject: `Receipt: ${amountText} to ${receipt.recipientName}`,
+        react: PaymentReceiptEmail({ receipt, handle: entry.handle, audience: "payer", receiptUrl }),
+      })
+    );
+  }
+  if (profile?.email) {
+    deliveries.push(
+      sendMail({
+        to: profile.email,
+        subject: `You received ${amountText}`,
+        react: PaymentReceiptEmail({ receipt, handle: entry.handle, audience: "recipient", receiptUrl }),
+      })
+    );
+  }
+
+  const results = await Promise.allSettled(deliveries);
+  const failed = results.filter((r) => r.status === "rejected");
+  failed.forEach((r) => console.error("❗ receipt mail error:", (r as PromiseRejectedResult).reason));
+
+  if (deliveries.length > 0 && failed.length === deliveries.length) {
+    await releaseReceiptSend(flagId);
+    return { status: "failed" };
+  }
+  return { status: "sent", sent: deliveries.length - failed.length };
+}
+
+/**
+ * Sends the receipts after the response once a ledger entry reaches "paid",
+ * whoever moved it there (webhook or gateway poll); the payer's tab may be gone.
+ */
+export function sendReceiptsWhenPaid(entry: LedgerEntry | null) {
+  if (entry?.state !== "paid") return;
+  const run = () =>
+    sendPaidReceipts(entry)
+      .then(() => undefined)
+      .catch((err) => console.error("❗ receipt send error:", err));
+  try {
+    after(run);
+  } catch {
+    // outside a request scope (scripts, tests)
+    void run();
+  }
+}
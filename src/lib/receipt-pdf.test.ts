@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createTranslator } from "./i18n";
+import type { LedgerEntry } from "./ledger";
+import { buildReceiptPdf, receiptLabels } from "./receipt-pdf";
+import { receiptView } from "./receipt-view";
+
+vi.mock("./profile", () => ({ fetchUserPublic: async () => null }));
+
+const entry: LedgerEntry = {
+  tx: "tx-1",
+  handle: "shop",
+  amount: 5000,
+  currency: "UGX",
+  state: "paid",
+  payerMsisdn: "256772123456",
+  recipientMsisdn: "256701234567",
+  recipientName: "Shop",
+  transactionId: "gw-1",
+  providerTx: null,
+  createdAtIso: "2025-01-01T10:00:00.000Z",
+  updatedAtIso: "2025-01-01T10:01:00.000Z",
+  paidAtIso: "2025-01-01T10:01:00.000Z",
+  transitions: [],
+};
+
+const pdfText = (bytes: Uint8Array) => Array.from(bytes, (b) => String.fromCharCode(b)).join("");
+
+describe("public receipt renderings", () => {
+  beforeEach(() => {
+    vi.stubEnv("RECEIPT_SIGNING_SECRET", "test-secret");
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("masks the payer's number in the view and the PDF", async () => {
+    const view = await receiptView(entry);
+    expect(view.payerMsisdn).toBe("256••••••456");
+
+    const pdf = pdfText(buildReceiptPdf(view, entry.transactionId, receiptLabels(createTranslator("en"))));
+    expect(pdf).not.toContain("256772123456");
+    // "•" is 0x95 in WinAnsi
+    expect(pdf).toContain(`+256${"\x95".repeat(6)}456`);
+  });
+});
@@ -0,0 +1,58 @@
+import type { Translator } from "./i18n";
+import { buildReceiptUrl } from "./paylink";
+import { buildTextPdf } from "./pdf";
+import type { ReceiptView } from "./receipt-view";
+
+/** Card and PDF labels in the UI language */
+export function receiptLabels(t: Translator) {
+  return {
+    title: t("receipt.title"),
+    amount: t("receipt.amount"),
+    recipient: t("receipt.recipient"),
+    paidAt: t("receipt.paidAt"),
+    reference: t("receipt.reference"),
+    providerRef: t("receipt.providerRef"),
+    gatewayId: t("receipt.gatewayId"),
+    from: t("receipt.from"),
+    invoice: t("receipt.invoice"),
+    memo: t("receipt.memo"),
+    paylink: t("receipt.paylink"),
+    verification: t("receipt.verification"),
+    poweredBy: t("receipt.poweredBy"),
+  };
+}
+
+export type ReceiptLabels = ReturnType<typeof receiptLabels>;
+
+/** Plain text PDF of a receipt view, for bookkeeping */
+export function buildReceiptPdf(view: ReceiptView, gatewayId: string | null, labels: ReceiptLabels) {
+  return buildTextPdf({
+    title: `Guto receipt ${view.tx}`,
+    lines: [
+      { text: labels.title, size: 20, bold: true },
+      { text: labels.amount, muted: true, gap: 14 },
+      { text: view.amountText, size: 24, bold: true },
+      { text: labels.recipient, muted: true, gap: 10 },
+      { text: `${view.recipientName} (${view.handle})`, bold: true },
+      { text: labels.from, muted: true, gap: 8 },
+      { text: `+${view.payerMsisdn}` },
+      ...(view.invoiceNumber
+        ? [{ text: labels.invoice, muted: true, gap: 8 }, { text: view.invoiceNumber }]
+        : []),
+      ...(view.memo ? [{ text: labels.memo, muted: true, gap: 8 }, { text: view.memo }] : []),
+      { text: labels.paidAt, muted: true, gap: 8 },
+      { text: view.paidAt },
+      // full references: accounting needs them untruncated
+      { text: labels.reference, muted: true, gap: 8 },
+      { text: view.tx, size: 9 },
+      ...(view.providerTx
+        ? [{ text: labels.providerRef, muted: true, gap: 8 }, { text: view.providerTx, size: 9 }]
+        : []),
+      ...(gatewayId ? [{ text: labels.gatewayId, muted: true, gap: 8 }, { text: gatewayId, size: 9 }] : []),
+      { text: labels.verification, muted: true, gap: 14 },
+      { text: view.verifyCode, bold: true },
+      { text: buildReceiptUrl(view.tx, view.verifyCode), size: 8, muted: true },
+      { text: `${labels.poweredBy} Guto`, size: 8, muted: true, gap: 14 },
+    ],
+  });
+}
@@ -0,0 +1,35 @@
+import { hmacSha256Hex, safeEqual } from "./hmac";
+import type { LedgerEntry } from "./ledger";
+
+function secret() {
+  const s = process.env.RECEIPT_SIGNING_SECRET;
+  if (!s) throw new Error("RECEIPT_SIGNING_SECRET is not set");
+  return s;
+}
+
+/** Every field printed on a receipt, so altering any of them breaks the code */
+function canonical(entry: LedgerEntry) {
+  return [
+    entry.tx,
+    entry.amount,
+    entry.currency,
+    entry.paidAtIso ?? "",
+    entry.payerMsisdn,
+    entry.recipientMsisdn,
+    entry.handle,
+    // appended only when present so codes on plain receipts stay unchanged
+    ...(entry.invoiceNumber || entry.memo ? [entry.invoiceNumber ?? "", entry.memo ?? ""] : []),
+  ].join("|");
+}
+
+/** Short human-typeable code, e.g. "3F9A-0C1B-77DE" */
+export async function receiptCode(entry: LedgerEntry): Promise<string> {
+  const hex = await hmacSha256Hex(secret(), canonical(entry));
+  return hex.slice(0, 12).toUpperCase().match(/.{4}/g)!.join("-");
+}
+
+export async function verifyReceiptCode(entry: LedgerEntry, code: string): Promise<boolean> {
+  const normalized = code.trim().toUpperCase().replace(/[^0-9A-F]/g, "");
+  const expected = (await receiptCode(entry)).replace(/-/g, "");
+  return safeEqual(normalized, expected);
+}
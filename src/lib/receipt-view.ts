@@ -0,0 +1,74 @@
+import { formatMoney } from "./currency";
+import { type LedgerEntry, ledger } from "./ledger";
+import { maskMsisdn } from "./msisdn";
+import { buildPaylink } from "./paylink";
+import { fetchUserPublic } from "./profile";
+import { type PaidReceipt, fmtDate } from "./receipt";
+import { receiptCode } from "./receipt-signing";
+
+const TIME_ZONE = "Africa/Kampala";
+const DEFAULT_LOCALE = "en-UG";
+
+/** A ledger entry that is confirmed paid, or null */
+export async function loadPaidEntry(tx: string): Promise<LedgerEntry | null> {
+  const entry = await ledger.get(tx).catch(() => null);
+  return entry && entry.state === "paid" ? entry : null;
+}
+
+/** The receipt fields of a paid ledger entry (emails, exports) */
+export function paidReceiptFromEntry(entry: LedgerEntry): PaidReceipt {
+  return {
+    amount: entry.amount,
+    currency: entry.currency,
+    tx: entry.tx,
+    providerTx: entry.providerTx,
+    paidAtIso: entry.paidAtIso ?? new Date().toISOString(),
+    payerMsisdn: entry.payerMsisdn,
+    recipientMsisdn: entry.recipientMsisdn,
+    recipientName: entry.recipientName,
+    invoiceNumber: entry.invoiceNumber,
+    memo: entry.memo,
+  };
+}
+
+/** Falls back to en-UG for anything the runtime's Intl does not support */
+export function resolveLocale(input?: string | null): string {
+  if (!input) return DEFAULT_LOCALE;
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([input])[0] ?? DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+/**
+ * Display values shared by the receipt page, PNG and PDF renderings. All of
+ * them are public to anyone holding the tx, so the payer's number is masked.
+ */
+export async function receiptView(entry: LedgerEntry, locale = DEFAULT_LOCALE) {
+  const profile = await fetchUserPublic(entry.handle);
+  const amountText = formatMoney(entry.amount, entry.currency, locale);
+
+  return {
+    amountText,
+    recipientName: profile?.name || entry.recipientName,
+    handle: `@${entry.handle}`,
+    paylink: buildPaylink(entry.handle),
+    tx: entry.tx,
+    providerTx: entry.providerTx,
+    paidAt: new Date(entry.paidAtIso!).toLocaleString(locale, {
+      year: "numeric",
+      month: "short",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone: TIME_ZONE,
+    }),
+    payerMsisdn: maskMsisdn(entry.payerMsisdn),
+    invoiceNumber: entry.invoiceNumber ?? null,
+    memo: entry.memo ?? null,
+    verifyCode: await receiptCode(entry),
+  };
+}
+
+export type ReceiptView = Awaited<ReturnType<typeof receiptView>>;
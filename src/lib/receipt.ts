@@ -0,0 +1,168 @@
+/** A confirmed paylink payment, as shown on receipts (image, email, page) */
+export type PaidReceipt = {
+  amount: number;
+  currency?: string;          // ISO 4217; UGX when absent
+  tx: string;
+  providerTx?: string | null;
+  paidAtIso: string;
+  payerMsisdn: string;        // normalized "2567XXXXXXXX"
+  recipientMsisdn: string;    // normalized "2567XXXXXXXX"
+  recipientName: string;
+  invoiceNumber?: string | null;
+  memo?: string | null;
+};
+
+/**
+ * Pass a timeZone when formatting on the server, where the host zone is arbitrary;
+ * locale defaults to the runtime's.
+ */
+export function fmtDate(d: Date, timeZone?: string, locale?: string) {
+  return d.toLocaleString(locale, {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+export function truncateRef(s?: string | null, max = 15) {
+  if (!s) return "";
+  return s.length > max ? s.slice(0, max) + "…" : s;
+}
+
+function escapeXml(s: string) {
+  return s.replace(/[<>&"']/g, (c) =>
+    ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c]!
+  );
+}
+
+/** Build a white card on green background (no “To” phone; refs truncated to 15) */
+export function buildReceiptSVG(opts: {
+  amountText: string;
+  recipientName: string;
+  handle: string;
+  paylink: string;
+  tx: string;
+  providerTx?: string | null;
+  paidAt: string;
+  payerMsisdn: string;
+  invoiceNumber?: string | null;
+  memo?: string | null;
+  brand: { name: string; green: string };
+  /** Signed code printed on the card; see receipt-signing.ts */
+  verifyCode?: string;
+}) {
+  const { brand } = opts;
+  const amountText = escapeXml(opts.amountText);
+  const recipientName = escapeXml(opts.recipientName);
+  const handle = escapeXml(opts.handle);
+  const paylink = escapeXml(opts.paylink);
+  const paidAt = escapeXml(opts.paidAt);
+  const payerMsisdn = escapeXml(opts.payerMsisdn);
+  const verifyCode = opts.verifyCode ? escapeXml(opts.verifyCode) : "";
+
+  const txShort = escapeXml(truncateRef(opts.tx, 15));
+  const providerShort = escapeXml(truncateRef(opts.providerTx ?? "", 15));
+  const invoiceShort = escapeXml(truncateRef(opts.invoiceNumber ?? "", 15));
+  const memoShort = escapeXml(truncateRef(opts.memo ?? "", 26));
+
+
+return `
+<svg width="1080" height="1080" viewBox="0 0 1080 1080" xmlns="http://www.w3.org/2000/svg">
+  <defs>
+    <linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="${brand.green}"/>
+      <stop offset="100%" stop-color="#0a8a46"/>
+    </linearGradient>
+    <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
+      <feDropShadow dx="0" dy="14" stdDeviation="18" flood-color="rgba(0,0,0,0.25)"/>
+    </filter>
+    <pattern id="dots" x="0" y="0" width="20" height="20" patternUnits="userSpaceOnUse">
+      <circle cx="1.2" cy="1.2" r="1.2" fill="rgba(255,255,255,0.12)"/>
+    </pattern>
+  </defs>
+
+  <!-- GREEN BACKGROUND -->
+  <rect width="1080" height="1080" fill="url(#g)"/>
+  <rect width="1080" height="1080" fill="url(#dots)"/>
+ <g transform="translate(90,120)" filter="url(#shadow)">
+    <rect x="0" y="0" width="900" height="820" rx="28" fill="#ffffff" stroke="#e5e7eb"/>
+
+    <!-- Header (no check icon) -->
+    <g transform="translate(40,48)">
+      <text x="0" y="38" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="40" font-weight="900" fill="#111827">Payment Receipt</text>
+      <rect x="0" y="48" width="265" height="8" fill="${brand.green}" rx="4"/>
+    </g>
+
+    <!-- Amount -->
+    <g transform="translate(40,150)">
+      <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="28" fill="#6b7280">Amount</text>
+      <text y="84" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="96" font-weight="900" fill="#111827">${amountText}</text>
+    </g>
+
+    <!-- Recipient -->
+    <g transform="translate(40,320)">
+      <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="28" fill="#6b7280">Recipient</text>
+      <text y="46" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="44" font-weight="800" fill="#111827">${recipientName}</text>
+      <text y="86" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="28" fill="#374151">${handle}</text>
+    </g>
+
+    <!-- Meta -->
+    <g transform="translate(40,460)">
+      <g>
+        <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="24" fill="#6b7280">Paid at</text>
+        <text y="36" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="30" font-weight="700" fill="#111827">${paidAt}</text>
+      </g>
+      <g transform="translate(420,0)">
+        <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="24" fill="#6b7280">Reference</text>
+        <text y="36" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="30" font-weight="700" fill="#111827">${txShort}</text>
+      </g>
+      ${providerShort ? `
+      <g transform="translate(0,90)">
+        <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="24" fill="#6b7280">Provider Ref</text>
+        <text y="36" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="30" font-weight="700" fill="#111827">${providerShort}</text>
+      </g>` : ``}
+      ${invoiceShort ? `
+      <g transform="translate(420,90)">
+        <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="24" fill="#6b7280">Invoice</text>
+        <text y="36" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="30" font-weight="700" fill="#111827">${invoiceShort}</text>
+      </g>` : ``}
+    </g>
+
+    <!-- Parties (hide TO; show only FROM) -->
+    <g transform="translate(40,630)">
+      <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="24" fill="#6b7280">From</text>
+      <text y="34" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="28" fill="#111827">+${payerMsisdn}</text>
+    </g>
+    ${memoShort ? `
+    <g transform="translate(460,630)">
+      <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="24" fill="#6b7280">Memo</text>
+      <text y="34" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="28" fill="#111827">${memoShort}</text>
+    </g>` : ``}
+
+    <!-- Paylink -->
+    <g transform="translate(40,720)">
+      <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="22" fill="#6b7280">Paylink</text>
+      <text y="30" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="26" fill="#111827">${paylink}</text>
+    </g>
+    ${verifyCode ? `
+    <g transform="translate(40,790)">
+      <text font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="20" fill="#6b7280">Verification code <tspan font-weight="700" fill="#111827">${verifyCode}</tspan></text>
+    </g>` : ``}
+  </g>
+
+  <!-- PAID badge -->
+  <g transform="translate(0,0)">
+    <g transform="translate(540,160) rotate(-18)">
+      <rect x="-170" y="-40" width="340" height="80" rx="16" fill="#ffffff" opacity="0.18" stroke="#ffffff" stroke-width="3"/>
+      <text text-anchor="middle" dominant-baseline="middle" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="48" font-weight="900" fill="${brand.green}">PAID</text>
+    </g>
+  </g>
+
+  <!-- Footer -->
+  <text x="540" y="1040" text-anchor="middle" font-family="Inter, system-ui, -apple-system, Segoe UI, Roboto" font-size="22" fill="rgba(255,255,255,0.85)">Powered by ${brand.name}</text>
+</svg>
+`;
+}
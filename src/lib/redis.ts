@@ -0,0 +1,56 @@
+import { Redis } from "@upstash/redis";
+
+export const redis = new Redis({
+  url: process.env.UPSTASH_REDIS_REST_URL,
+  token: process.env.UPSTASH_REDIS_REST_TOKEN,
+});
+
+/** Without both env vars, stores fall back to process memory (local runs only) */
+export const hasUpstash =
+  !!process.env.UPSTASH_REDIS_REST_URL && !!process.env.UPSTASH_REDIS_REST_TOKEN;
+
+/** Expiring keys, for modules that need nothing more than get/set/del */
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  /** With `nx`, only when the key is absent; true when written */
+  set(key: string, value: unknown, opts: { ex: number; nx?: boolean }): Promise<boolean>;
+  del(key: string): Promise<void>;
+}
+
+function redisKeyValueStore(): KeyValueStore {
+  return {
+    get: (key) => redis.get(key),
+    async set(key, value, { ex, nx }) {
+      const ok = nx ? await redis.set(key, value, { ex, nx: true }) : await redis.set(key, value, { ex });
+      return ok === "OK";
+    },
+    async del(key) {
+      await redis.del(key);
+    },
+  };
+}
+
+export function memoryKeyValueStore(): KeyValueStore {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+  const live = (key: string) => {
+    const e = entries.get(key);
+    if (e && e.expiresAt > Date.now()) return e;
+    entries.delete(key);
+    return null;
+  };
+  return {
+    async get<T>(key: string) {
+      return (live(key)?.value as T | undefined) ?? null;
+    },
+    async set(key, value, { ex, nx }) {
+      if (nx && live(key)) return false;
+      entries.set(key, { value, expiresAt: Date.now() + ex * 1000 });
+      return true;
+    },
+    async del(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+export const kv: KeyValueStore = hasUpstash ? redisKeyValueStore() : memoryKeyValueStore();
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { ledger } from "./ledger";
+import {
+  DEFAULT_RISK_RULES,
+  type PaymentAttempt,
+  type RiskDecision,
+  assessPayment,
+  decide,
+  mergeRules,
+  passChallenge,
+} from "./risk";
+
+const cooldownMs = DEFAULT_RISK_RULES.challengeCooldownSeconds * 1000;
+
+const reason = (score: number): RiskDecision["reasons"][number] => ({
+  signal: "payerVelocity",
+  score,
+  detail: "",
+});
+
+const attempt = (tx: string, payerMsisdn: string, handle = "shop"): PaymentAttempt => ({
+  tx,
+  handle,
+  amount: 5000,
+  currency: "UGX",
+  payerMsisdn,
+  accountName: "",
+});
+
+/** A ledger entry for `payer`, created `minutesAgo` */
+async function pastPayment(tx: string, payer: string, minutesAgo: number, handle = "shop") {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(Date.now() - minutesAgo * 60_000);
+  await ledger.recordInitiated({
+    tx,
+    handle,
+    amount: 5000,
+    currency: "UGX",
+    payerMsisdn: payer,
+    recipientMsisdn: "256701234567",
+    recipientName: "Shop",
+  });
+  vi.useRealTimers();
+}
+
+describe("risk scoring", () => {
+  it("allows, challenges and blocks at the thresholds", () => {
+    const rules = DEFAULT_RISK_RULES;
+    expect(decide([], rules)).toEqual({ action: "allow", score: 0, reasons: [] });
+    expect(decide([reason(rules.challengeAt - 1)], rules).action).toBe("allow");
+    expect(decide([reason(rules.challengeAt)], rules).action).toBe("challenge");
+    const both = [reason(rules.challengeAt), reason(rules.blockAt - rules.challengeAt)];
+    expect(decide(both, rules)).toMatchObject({ action: "block", score: rules.blockAt });
+  });
+
+  it("lets a new payer through with no reasons", async () => {
+    const decision = await assessPayment(attempt("new-1", "256772100001", "fresh-shop"));
+    expect(decision).toEqual({ action: "allow", score: 0, reasons: [] });
+  });
+
+  it("flags payer velocity from recent ledger entries", async () => {
+    const payer = "256772100002";
+    for (let i = 0; i < DEFAULT_RISK_RULES.payerVelocity.max; i++) {
+      await pastPayment(`vel-${i}`, payer, 1, "velocity-shop");
+    }
+
+    // an idempotent retry of a recorded attempt does not count itself
+    const retry = await assessPayment(attempt("vel-0", payer, "velocity-shop"));
+    expect(retry.reasons).toEqual([]);
+
+    const decision = await assessPayment(attempt("vel-next", payer, "velocity-shop"));
+    expect(decision.reasons.map((r) => r.signal)).toEqual(["payerVelocity"]);
+    expect(decision.action).toBe("challenge");
+  });
+
+  it("counts challenged attempts that never reached the ledger", async () => {
+    const payer = "256772100003";
+    // failures from outside the velocity window put the payer at the challenge threshold
+    for (let i = 0; i < DEFAULT_RISK_RULES.payerFailures.max; i++) {
+      await pastPayment(`fail-${i}`, payer, 30, "probe-shop");
+      await ledger.transition(`fail-${i}`, "failed", "pay");
+    }
+
+    const probes = [];
+    for (let i = 0; i <= DEFAULT_RISK_RULES.payerVelocity.max; i++) {
+      probes.push((await assessPayment(attempt(`probe-${i}`, payer, "probe-shop"))).action);
+    }
+    expect(probes).toEqual(["challenge", "challenge", "challenge", "block"]);
+  });
+});
+
+describe("risk rule overrides", () => {
+  it("merges top-level and nested values", () => {
+    const rules = mergeRules(DEFAULT_RISK_RULES, {
+      blockAt: 60,
+      payerVelocity: { max: 5 },
+    });
+    expect(rules.blockAt).toBe(60);
+    expect(rules.payerVelocity).toEqual({ ...DEFAULT_RISK_RULES.payerVelocity, max: 5 });
+    expect(rules.challengeAt).toBe(DEFAULT_RISK_RULES.challengeAt);
+  });
+
+  it("ignores values of the wrong type, nested ones included", () => {
+    const rules = mergeRules(DEFAULT_RISK_RULES, {
+      blockAt: "80",
+      enabled: "no",
+      payerVelocity: { max: "3", score: null, windowMinutes: Number.NaN },
+      amountAnomaly: 5,
+      unknown: 1,
+    });
+    expect(rules).toEqual(DEFAULT_RISK_RULES);
+  });
+
+  it("ignores overrides that aren't objects", () => {
+    expect(mergeRules(DEFAULT_RISK_RULES, null)).toBe(DEFAULT_RISK_RULES);
+    expect(mergeRules(DEFAULT_RISK_RULES, "strict")).toBe(DEFAULT_RISK_RULES);
+  });
+});
+
+describe("challenge cooldown on the memory store", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("holds a challenged payer until the cooldown ends, then lets one attempt through", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const payer = "256772000001";
+
+    const first = await passChallenge(payer);
+    expect(first.passed).toBe(false);
+    expect(first.retryAfter).toBe(DEFAULT_RISK_RULES.challengeCooldownSeconds);
+
+    vi.setSystemTime(Date.now() + cooldownMs / 2);
+    expect((await passChallenge(payer)).passed).toBe(false);
+
+    vi.setSystemTime(Date.now() + cooldownMs / 2);
+    expect(await passChallenge(payer)).toEqual({ passed: true, retryAfter: 0 });
+
+    // the slot is used up; the next attempt opens a new cooldown
+    expect((await passChallenge(payer)).passed).toBe(false);
+  });
+
+  it("keeps cooldowns apart per payer", async () => {
+    await passChallenge("256772000002");
+    const other = await passChallenge("256772000003");
+    expect(other.retryAfter).toBe(DEFAULT_RISK_RULES.challengeCooldownSeconds);
+  });
+});
@@ -0,0 +1,439 @@
+import { lookupAccountName } from "./guto";
+import { type LedgerEntry, type LedgerState, ledger } from "./ledger";
+import { hasUpstash, redis } from "./redis";
+
+/**
+ * Risk scoring for /api/pay. Each attempt is scored from ledger history
+ * before any prompt reaches a phone:
+ *
+ *   payerVelocity      attempts from the payer's MSISDN in a short window
+ *   recipientVelocity  attempts towards the paylink in a short window
+ *                      (both count challenged and blocked attempts too,
+ *                      which never reach the ledger)
+ *   payerFailures      the payer's failed or cancelled attempts
+ *   amountAnomaly      amount far above the recipient's usual paid amount
+ *   nameMismatch       submitted account name differs from the registered one
+ *
+ * Scores add up; at `challengeAt` the payer's attempts are held to one per
+ * `challengeCooldownSeconds`, at `blockAt` they are refused. Rules are defaults, then the
+ * RISK_RULES env JSON, then the `risk:rules` Redis key, so ops can tune them
+ * without a redeploy. Decisions that scored anything land in `risk:decisions`.
+ */
+
+export type RiskRules = {
+  enabled: boolean;
+  challengeAt: number;
+  blockAt: number;
+  /** Seconds a challenged payer waits before an attempt is let through */
+  challengeCooldownSeconds: number;
+  payerVelocity: { windowMinutes: number; max: number; score: number };
+  recipientVelocity: { windowMinutes: number; max: number; score: number };
+  payerFailures: { windowMinutes: number; max: number; score: number };
+  /** Flags amounts above `multiple` x the median of the last `historyDays` of paid amounts */
+  amountAnomaly: { historyDays: number; minHistory: number; multiple: number; score: number };
+  nameMismatch: { score: number };
+};
+
+export type RiskSignal =
+  | "payerVelocity"
+  | "recipientVelocity"
+  | "payerFailures"
+  | "amountAnomaly"
+  | "nameMismatch";
+
+export type RiskAction = "allow" | "challenge" | "block";
+
+export type RiskDecision = {
+  action: RiskAction;
+  score: number;
+  reasons: { signal: RiskSignal; score: number; detail: string }[];
+};
+
+export type PaymentAttempt = {
+  tx: string;
+  handle: string;
+  amount: number;
+  currency: string;
+  payerMsisdn: string;
+  accountName: string;
+};
+
+export const DEFAULT_RISK_RULES: RiskRules = {
+  enabled: true,
+  challengeAt: 40,
+  blockAt: 80,
+  challengeCooldownSeconds: 60 * 5,
+  payerVelocity: { windowMinutes: 10, max: 3, score: 40 },
+  recipientVelocity: { windowMinutes: 10, max: 20, score: 30 },
+  payerFailures: { windowMinutes: 60, max: 3, score: 40 },
+  amountAnomaly: { historyDays: 30, minHistory: 5, multiple: 5, score: 30 },
+  nameMismatch: { score: 25 },
+};
+
+const RULES_KEY = "risk:rules";
+const DECISIONS_KEY = "risk:decisions";
+const DECISIONS_KEPT = 5000;
+const RULES_TTL_MS = 60_000;
+/** How long an expired cooldown still lets one attempt through */
+const CHALLENGE_GRACE_SECONDS = 60 * 10;
+const FAILED_STATES: LedgerState[] = ["failed", "cancelled", "error"];
+
+/* ---------------- rules ---------------- */
+/** `value` when it has the default's type (finite, for numbers), else the default */
+function sameType<T>(current: T, value: unknown): T {
+  if (typeof value !== typeof current) return current;
+  return typeof value === "number" && !Number.isFinite(value) ? current : (value as T);
+}
+
+/**
+ * Overrides win key by key, nested ones included; a value of the wrong type
+ * (say "80" for blockAt) is ignored rather than turning the check off.
+ */
+export function mergeRules(base: RiskRules, override: unknown): RiskRules {
+  if (!override || typeof override !== "object") return base;
+  const o = override as Record<string, unknown>;
+  const merged = { ...base } as Record<string, unknown>;
+  for (const key of Object.keys(base) as (keyof RiskRules)[]) {
+    const value = o[key];
+    if (value === undefined) continue;
+    const current = base[key];
+    if (typeof current !== "object") {
+      merged[key] = sameType(current, value);
+      continue;
+    }
+    if (!value || typeof value !== "object") continue;
+    const nested = { ...current } as Record<string, unknown>;
+    for (const [k, v] of Object.entries(current)) {
+      nested[k] = sameType(v, (value as Record<string, unknown>)[k]);
+    }
+    merged[key] = nested;
+  }
+  return merged as RiskRules;
+}
+
+function envRules(): RiskRules {
+  const raw = process.env.RISK_RULES;
+  try {
+    return mergeRules(DEFAULT_RISK_RULES, raw ? JSON.parse(raw) : null);
+  } catch (err) {
+    console.error("❗ RISK_RULES is not valid JSON:", err);
+    return DEFAULT_RISK_RULES;
+  }
+}
+
+let cachedRules: { rules: RiskRules; loadedAt: number } | null = null;
+
+/** Current rules; the Redis override is re-read at most once a minute */
+export async function loadRiskRules(): Promise<RiskRules> {
+  if (cachedRules && Date.now() - cachedRules.loadedAt < RULES_TTL_MS) return cachedRules.rules;
+
+  const base = envRules();
+  const override = hasUpstash
+    ? await redis.get<unknown>(RULES_KEY).catch((err) => {
+        console.error("❗ risk rules read error:", err);
+        return null;
+      })
+    : null;
+  const rules = mergeRules(base, override);
+  cachedRules = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+/* ---------------- denied attempts ---------------- */
+/**
+ * Challenged and blocked attempts never reach the ledger, so they are kept
+ * here, by payer and by paylink, for the velocity signals to count.
+ */
+interface DeniedStore {
+  add(key: string, tx: string, at: number, ttlSeconds: number): Promise<void>;
+  /** Txs denied at or after `from` (epoch ms) */
+  since(key: string, from: number): Promise<string[]>;
+}
+
+function redisDeniedStore(): DeniedStore {
+  return {
+    async add(key, tx, at, ttlSeconds) {
+      await redis.zadd(key, { score: at, member: tx });
+      await redis.zremrangebyscore(key, 0, at - ttlSeconds * 1000);
+      await redis.expire(key, ttlSeconds);
+    },
+    since: (key, from) => redis.zrange<string[]>(key, from, "+inf", { byScore: true }),
+  };
+}
+
+function memoryDeniedStore(): DeniedStore {
+  const attempts = new Map<string, { times: Map<string, number>; expiresAt: number }>();
+  return {
+    async add(key, tx, at, ttlSeconds) {
+      const current = attempts.get(key);
+      const times =
+        current && current.expiresAt > Date.now() ? current.times : new Map<string, number>();
+      times.set(tx, at);
+      attempts.set(key, { times, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+    async since(key, from) {
+      const current = attempts.get(key);
+      if (!current || current.expiresAt <= Date.now()) return [];
+      return [...current.times].filter(([, at]) => at >= from).map(([tx]) => tx);
+    },
+  };
+}
+
+const denied = hasUpstash ? redisDeniedStore() : memoryDeniedStore();
+
+const deniedPayerKey = (payer: string) => `risk:denied:payer:${payer}`;
+const deniedHandleKey = (handle: string) => `risk:denied:handle:${handle}`;
+
+async function recordDenied(attempt: PaymentAttempt, rules: RiskRules) {
+  const ttlSeconds =
+    Math.max(rules.payerVelocity.windowMinutes, rules.recipientVelocity.windowMinutes) * 60;
+  const at = Date.now();
+  try {
+    await Promise.all([
+      denied.add(deniedPayerKey(attempt.payerMsisdn), attempt.tx, at, ttlSeconds),
+      denied.add(deniedHandleKey(attempt.handle), attempt.tx, at, ttlSeconds),
+    ]);
+  } catch (err) {
+    console.error("❗ risk denied log error:", err);
+  }
+}
+
+/* ---------------- signals ---------------- */
+const since = (minutes: number) => ({ from: new Date(Date.now() - minutes * 60_000) });
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Name tokens of two letters or more, lowercased and without accents */
+function nameTokens(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((t) => t.length > 1);
+}
+
+/** Names match when they share a token: "JOHN DOE" matches "John" */
+export function namesMatch(a: string, b: string) {
+  const tokens = new Set(nameTokens(a));
+  return nameTokens(b).some((t) => tokens.has(t));
+}
+
+/** Distinct txs other than this attempt's (idempotent retries share the tx) */
+const otherTxs = (txs: string[], tx: string) => new Set(txs.filter((t) => t !== tx));
+
+/** Denied txs since `minutes` ago; none when the store can't be read */
+const deniedSince = (key: string, minutes: number) =>
+  denied.since(key, Date.now() - minutes * 60_000).catch((err) => {
+    console.error("❗ risk denied read error:", err);
+    return [] as string[];
+  });
+
+async function collectReasons(
+  attempt: PaymentAttempt,
+  rules: RiskRules
+): Promise<RiskDecision["reasons"]> {
+  const { payerVelocity, recipientVelocity, payerFailures, amountAnomaly, nameMismatch } = rules;
+  const payerWindow = Math.max(payerVelocity.windowMinutes, payerFailures.windowMinutes);
+  const recipientWindow = Math.max(recipientVelocity.windowMinutes, amountAnomaly.historyDays * 24 * 60);
+
+  const [payerEntries, recipientEntries, payerDenied, recipientDenied, registeredName] =
+    await Promise.all([
+      ledger.listByPayer(attempt.payerMsisdn, since(payerWindow)),
+      ledger.listByHandle(attempt.handle, since(recipientWindow)),
+      deniedSince(deniedPayerKey(attempt.payerMsisdn), payerVelocity.windowMinutes),
+      deniedSince(deniedHandleKey(attempt.handle), recipientVelocity.windowMinutes),
+      nameMismatch.score > 0 && attempt.accountName
+        ? lookupAccountName(attempt.payerMsisdn).catch(() => null)
+        : null,
+    ]);
+
+  const reasons: RiskDecision["reasons"] = [];
+  const within = (e: LedgerEntry, minutes: number) =>
+    Date.parse(e.createdAtIso) >= Date.now() - minutes * 60_000;
+
+  const payerRecent = otherTxs(
+    [
+      ...payerEntries.filter((e) => within(e, payerVelocity.windowMinutes)).map((e) => e.tx),
+      ...payerDenied,
+    ],
+    attempt.tx
+  );
+  if (payerRecent.size >= payerVelocity.max) {
+    reasons.push({
+      signal: "payerVelocity",
+      score: payerVelocity.score,
+      detail: `${payerRecent.size} attempts in ${payerVelocity.windowMinutes} min`,
+    });
+  }
+
+  const failures = payerEntries.filter(
+    (e) =>
+      e.tx !== attempt.tx &&
+      FAILED_STATES.includes(e.state) &&
+      within(e, payerFailures.windowMinutes)
+  );
+  if (failures.length >= payerFailures.max) {
+    reasons.push({
+      signal: "payerFailures",
+      score: payerFailures.score,
+      detail: `${failures.length} failed attempts in ${payerFailures.windowMinutes} min`,
+    });
+  }
+
+  const recipientRecent = otherTxs(
+    [
+      ...recipientEntries.filter((e) => within(e, recipientVelocity.windowMinutes)).map((e) => e.tx),
+      ...recipientDenied,
+    ],
+    attempt.tx
+  );
+  if (recipientRecent.size >= recipientVelocity.max) {
+    reasons.push({
+      signal: "recipientVelocity",
+      score: recipientVelocity.score,
+      detail: `${recipientRecent.size} attempts to @${attempt.handle} in ${recipientVelocity.windowMinutes} min`,
+    });
+  }
+
+  const paidAmounts = recipientEntries
+    .filter((e) => e.state === "paid" && e.currency === attempt.currency)
+    .map((e) => e.amount);
+  if (paidAmounts.length >= amountAnomaly.minHistory) {
+    const usual = median(paidAmounts);
+    if (attempt.amount > usual * amountAnomaly.multiple) {
+      reasons.push({
+        signal: "amountAnomaly",
+        score: amountAnomaly.score,
+        detail: `${attempt.amount} ${attempt.currency} vs median ${usual}`,
+      });
+    }
+  }
+
+  if (registeredName && !namesMatch(registeredName, attempt.accountName)) {
+    reasons.push({
+      signal: "nameMismatch",
+      score: nameMismatch.score,
+      detail: `submitted "${attempt.accountName}", registered "${registeredName}"`,
+    });
+  }
+
+  return reasons;
+}
+
+/** Pure scoring step, kept apart from the lookups */
+export function decide(reasons: RiskDecision["reasons"], rules: RiskRules): RiskDecision {
+  const score = reasons.reduce((sum, r) => sum + r.score, 0);
+  const action: RiskAction =
+    score >= rules.blockAt ? "block" : score >= rules.challengeAt ? "challenge" : "allow";
+  return { action, score, reasons };
+}
+
+/* ---------------- decisions ---------------- */
+async function logDecision(attempt: PaymentAttempt, decision: RiskDecision) {
+  if (decision.score === 0 || !hasUpstash) return;
+  const record = { atIso: new Date().toISOString(), ...attempt, ...decision };
+  try {
+    await redis.lpush(DECISIONS_KEY, JSON.stringify(record));
+    await redis.ltrim(DECISIONS_KEY, 0, DECISIONS_KEPT - 1);
+  } catch (err) {
+    console.error("❗ risk log error:", err);
+  }
+}
+
+/**
+ * Scores a payment attempt and records the decision. Fails open: when the
+ * history can't be read the attempt is allowed and the error logged.
+ */
+export async function assessPayment(attempt: PaymentAttempt): Promise<RiskDecision> {
+  const rules = await loadRiskRules();
+  if (!rules.enabled) return { action: "allow", score: 0, reasons: [] };
+
+  try {
+    const decision = decide(await collectReasons(attempt, rules), rules);
+    await logDecision(attempt, decision);
+    if (decision.action !== "allow") await recordDenied(attempt, rules);
+    return decision;
+  } catch (err) {
+    console.error("❗ risk assessment error:", err);
+    return { action: "allow", score: 0, reasons: [] };
+  }
+}
+
+/* ---------------- friction ---------------- */
+/**
+ * Cooldowns live in Redis (or process memory without Upstash), keyed by payer,
+ * so neither a client header nor a fresh Idempotency-Key gets around them.
+ */
+interface CooldownStore {
+  /** Opens a cooldown ending at `until` unless one is open; returns the open one's end */
+  open(key: string, until: number, ttlSeconds: number): Promise<number>;
+  /** true for the one caller that removed it */
+  take(key: string): Promise<boolean>;
+}
+
+function redisCooldownStore(): CooldownStore {
+  return {
+    async open(key, until, ttlSeconds) {
+      if ((await redis.set(key, until, { nx: true, ex: ttlSeconds })) === "OK") return until;
+      return (await redis.get<number>(key)) ?? until;
+    },
+    async take(key) {
+      return (await redis.del(key)) === 1;
+    },
+  };
+}
+
+function memoryCooldownStore(): CooldownStore {
+  const cooldowns = new Map<string, { until: number; expiresAt: number }>();
+  return {
+    async open(key, until, ttlSeconds) {
+      const open = cooldowns.get(key);
+      if (open && open.expiresAt > Date.now()) return open.until;
+      cooldowns.set(key, { until, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return until;
+    },
+    async take(key) {
+      const open = cooldowns.get(key);
+      cooldowns.delete(key);
+      return !!open && open.expiresAt > Date.now();
+    },
+  };
+}
+
+const cooldowns = hasUpstash ? redisCooldownStore() : memoryCooldownStore();
+
+const cooldownKey = (payer: string) => `risk:cooldown:${payer}`;
+
+/**
+ * Friction for challenged payments. A payer's first challenged attempt opens
+ * a cooldown and is refused; the first one after it ends goes through and
+ * closes it, so a challenged payer gets at most one prompt per cooldown.
+ * `retryAfter` is the seconds left to wait. Fails closed when the store
+ * can't be reached.
+ */
+export async function passChallenge(
+  payerMsisdn: string
+): Promise<{ passed: boolean; retryAfter: number }> {
+  const { challengeCooldownSeconds } = await loadRiskRules();
+  const key = cooldownKey(payerMsisdn);
+  const now = Date.now();
+
+  try {
+    const until = await cooldowns.open(
+      key,
+      now + challengeCooldownSeconds * 1000,
+      challengeCooldownSeconds + CHALLENGE_GRACE_SECONDS
+    );
+    if (until > now) return { passed: false, retryAfter: Math.ceil((until - now) / 1000) };
+    // A concurrent attempt may have taken the slot first
+    if (await cooldowns.take(key)) return { passed: true, retryAfter: 0 };
+  } catch (err) {
+    console.error("❗ risk cooldown error:", err);
+  }
+  return { passed: false, retryAfter: challengeCooldownSeconds };
+}
@@ -0,0 +1,77 @@
+import { cookies } from "next/headers";
+
+import { hmacSha256Hex, safeEqual } from "./hmac";
+import { kv } from "./redis";
+
+/**
+ * Recipient sign-in: a short-lived link emailed to the profile's address
+ * (see /api/auth/login) is exchanged for a signed session cookie. Tokens are
+ * stateless `handle.expiresAt.sig` strings signed with SESSION_SECRET.
+ */
+
+export const SESSION_COOKIE = "guto_session";
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7;
+const LOGIN_TTL_SECONDS = 60 * 15;
+
+export type Session = {
+  handle: string;
+  /** Unix seconds */
+  expiresAt: number;
+};
+
+type Purpose = "login" | "session";
+
+function secret() {
+  const s = process.env.SESSION_SECRET;
+  if (!s) throw new Error("SESSION_SECRET is not set");
+  return s;
+}
+
+async function sign(purpose: Purpose, handle: string, expiresAt: number) {
+  const hex = await hmacSha256Hex(secret(), `${purpose}-v1|${handle}|${expiresAt}`);
+  return hex.slice(0, 32);
+}
+
+async function issue(purpose: Purpose, handle: string, ttlSeconds: number) {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return `${handle}.${expiresAt}.${await sign(purpose, handle, expiresAt)}`;
+}
+
+/** Handles may contain dots, so split from the right */
+async function read(purpose: Purpose, token: string, now = Date.now()): Promise<Session | null> {
+  const match = /^([a-z0-9._-]{1,64})\.(\d{1,12})\.([0-9a-f]{32})$/.exec(token);
+  if (!match) return null;
+  const [, handle, exp, sig] = match;
+  const expiresAt = Number(exp);
+  if (!safeEqual(sig, await sign(purpose, handle, expiresAt))) return null;
+  if (expiresAt * 1000 <= now) return null;
+  return { handle, expiresAt };
+}
+
+export const createLoginToken = (handle: string) => issue("login", handle, LOGIN_TTL_SECONDS);
+export const createSessionToken = (handle: string) => issue("session", handle, SESSION_TTL_SECONDS);
+export const verifySessionToken = (token: string) => read("session", token);
+
+/**
+ * Verifies an emailed sign-in token and burns it, so a forwarded or logged
+ * link cannot be replayed. Null when invalid, expired or already used.
+ */
+export async function redeemLoginToken(token: string): Promise<Session | null> {
+  const session = await read("login", token);
+  if (!session) return null;
+  const fresh = await kv.set(`auth:login:${token.slice(-32)}`, "1", {
+    nx: true,
+    ex: LOGIN_TTL_SECONDS,
+  });
+  return fresh ? session : null;
+}
+
+/** The signed-in recipient for this request, if any (server components and routes) */
+export async function getSession(): Promise<Session | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  return verifySessionToken(token).catch((err) => {
+    console.error("❗ session error:", err);
+    return null;
+  });
+}
@@ -0,0 +1,68 @@
+import { fetchTransactionStatus } from "./guto";
+import { ledger, toLedgerState } from "./ledger";
+import { sendReceiptsWhenPaid } from "./receipt-mail";
+import { kv } from "./redis";
+
+/** Statuses after which a transaction no longer changes on its own */
+export const FINAL_STATUSES = ["paid", "failed", "cancelled", "reversed", "error"];
+
+export type StoredStatus = {
+  status: string;
+  transactionId: string;
+  tx: string | null;
+  providerTx: string | null;
+  updatedAtIso: string;
+};
+
+const STATUS_TTL_SECONDS = 60 * 60 * 24 * 30;
+const key = (id: string) => `paylink:status:${id}`;
+
+export function isFinalStatus(status: string | null | undefined) {
+  return !!status && FINAL_STATUSES.includes(status);
+}
+
+export async function getStoredStatus(id: string) {
+  return kv.get<StoredStatus>(key(id));
+}
+
+/**
+ * Records a status reported by the gateway under both the gateway
+ * transaction_id and our local tx UUID. Redelivering the same status is a
+ * no-op, and a late non-final status never overwrites a final one.
+ */
+export async function recordStatus(record: StoredStatus): Promise<"stored" | "duplicate"> {
+  const existing = await getStoredStatus(record.transactionId);
+  if (existing) {
+    if (existing.status === record.status) return "duplicate";
+    if (isFinalStatus(existing.status) && !isFinalStatus(record.status)) return "duplicate";
+  }
+
+  const ids = [record.transactionId, record.tx].filter((id): id is string => !!id);
+  await Promise.all(ids.map((id) => kv.set(key(id), record, { ex: STATUS_TTL_SECONDS })));
+  return "stored";
+}
+
+/**
+ * Best current status for a transaction: a final status from our store wins,
+ * otherwise (when askGateway is set) the gateway is consulted. Unknown → "pending".
+ */
+export async function readTransactionStatus(
+  id: string,
+  { askGateway }: { askGateway: boolean }
+): Promise<string | null> {
+  const stored = await getStoredStatus(id).catch(() => null);
+  if (stored && isFinalStatus(stored.status)) return stored.status;
+  if (!askGateway) return stored?.status ?? null;
+
+  try {
+    const { found, status } = await fetchTransactionStatus(id);
+    if (found && isFinalStatus(status)) {
+      sendReceiptsWhenPaid(
+        await ledger.transition(id, toLedgerState(status), "gateway").catch(() => null)
+      );
+    }
+    return found ? status : "pending";
+  } catch {
+    return stored?.status ?? null;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Request schemas shared by the API routes and the client form, so both sides
+ * reject the same input with the same messages. Keep this module free of
+ * server-only imports.
+ */
+import { currencyForCountry, formatMoney, getCurrency, hasValidPrecision } from "./currency";
+import { resolveProvider } from "./fees";
+import { invalidMsisdnMessage, normalizeMsisdn } from "./msisdn";
+import {
+  INVOICE_PATTERN,
+  MAX_MEMO_LENGTH,
+  type PaylinkTerms,
+  type SignedTerms,
+  parseSignedTerms,
+} from "./paylink-signing";
+
+export const MAX_NAME_LENGTH = 120;
+
+export type FieldErrors = Record<string, string>;
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldErrors };
+
+export type Schema<T> = (input: unknown) => ParseResult<T>;
+
+/** A single field check: returns the parsed value or an error message */
+type Field<T> = (value: unknown) => { value: T } | { error: string };
+
+/* ---------------- fields ---------------- */
+export const emailField: Field<string> = (value) => {
+  const s = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (!s) return { error: "Email is required" };
+  if (s.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s)) {
+    return { error: "Please enter a valid email address" };
+  }
+  return { value: s };
+};
+
+export const nameField: Field<string> = (value) => {
+  const s = typeof value === "string" ? value.trim().replace(/\s+/g, " ") : "";
+  if (!s) return { error: "Name is required" };
+  if (s.length > MAX_NAME_LENGTH) {
+    return { error: `Name must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  return { value: s };
+};
+
+/** Mobile number for a country's numbering plan; without one, any supported plan */
+export function msisdnField(country?: string | null): Field<string> {
+  return (value) => {
+    const normalized = normalizeMsisdn(typeof value === "string" ? value : "", country);
+    if (!normalized) return { error: invalidMsisdnMessage(country) };
+    return { value: normalized };
+  };
+}
+
+/**
+ * Amount in major units of `currency`, within its wallet bounds unless explicit
+ * bounds are given. Decimals are allowed only as far as the currency's minor units.
+ */
+export function amountField(
+  currency?: string | null,
+  bounds: { min?: number; max?: number } = {}
+): Field<number> {
+  const info = getCurrency(currency);
+  const min = bounds.min ?? info.minAmount;
+  const max = bounds.max ?? info.maxAmount;
+  return (value) => {
+    const n = typeof value === "string" ? Number(value.replace(/[^\d.]/g, "")) : Number(value);
+    if (!Number.isFinite(n) || !hasValidPrecision(n, info.code) || n < min || n > max) {
+      return {
+        error: `Enter a valid amount between ${formatMoney(min, info.code)} and ${formatMoney(max, info.code)}`,
+      };
+    }
+    return { value: n };
+  };
+}
+
+/** Any positive amount; routes re-check against the recipient's currency */
+const anyAmountField: Field<number> = (value) => {
+  const n = typeof value === "string" ? Number(value.replace(/[^\d.]/g, "")) : Number(value);
+  if (!Number.isFinite(n) || n <= 0) return { error: "Enter a valid amount" };
+  return { value: n };
+};
+
+/**
+ * Mobile money provider chosen by the payer (numbers can be ported, so the
+ * prefix guess is only a default). Without a country, any carrier-like name
+ * passes; routes resolve it against the recipient's plan.
+ */
+export function providerField(country?: string | null): Field<string> {
+  return (value) => {
+    const s = typeof value === "string" ? value.trim() : "";
+    const name = country ? resolveProvider(country, s) : /^[A-Za-z][\w .-]{0,31}$/.test(s) ? s : null;
+    if (!name) return { error: "Choose a supported mobile money network" };
+    return { value: name };
+  };
+}
+
+export const handleField: Field<string> = (value) => {
+  const s = typeof value === "string" ? value.trim().replace(/^@/, "").toLowerCase() : "";
+  if (!s || !/^[a-z0-9._-]{1,64}$/.test(s)) return { error: "Invalid handle" };
+  return { value: s };
+};
+
+export const transactionIdField: Field<string> = (value) => {
+  const s = typeof value === "string" ? value.trim() : "";
+  if (!s || !/^[A-Za-z0-9._:-]{1,128}$/.test(s)) return { error: "Invalid transaction id" };
+  return { value: s };
+};
+
+/** Same-site path to return to after sign-in ("/@shop"); never another origin */
+export const nextPathField: Field<string> = (value) => {
+  const s = typeof value === "string" ? value.trim() : "";
+  if (!/^\/(?![\/\\])[^\s]{0,200}$/.test(s)) return { error: "Invalid return path" };
+  return { value: s };
+};
+
+/** Signed paylink terms echoed back by the client; routes verify the signature */
+export const signedTermsField: Field<SignedTerms> = (value) => {
+  const parsed =
+    value && typeof value === "object" ? parseSignedTerms(value as Record<string, unknown>) : null;
+  if (!parsed || parsed === "malformed") return { error: "Invalid paylink terms" };
+  return { value: parsed };
+};
+
+export const invoiceField: Field<string> = (value) => {
+  const s = typeof value === "string" ? value.trim() : "";
+  if (!INVOICE_PATTERN.test(s)) {
+    return { error: "Invoice numbers use letters, digits and . _ / # - (max 40)" };
+  }
+  return { value: s };
+};
+
+export const memoField: Field<string> = (value) => {
+  const s = typeof value === "string" ? value.trim().replace(/\s+/g, " ") : "";
+  if (!s) return { error: "Memo is required" };
+  if (s.length > MAX_MEMO_LENGTH) return { error: `Memo must be at most ${MAX_MEMO_LENGTH} characters` };
+  return { value: s };
+};
+
+/** Unix seconds, at least a minute ahead */
+export const expiresAtField: Field<number> = (value) => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n * 1000 < Date.now() + 60_000) {
+    return { error: "Expiry must be a future time" };
+  }
+  return { value: n };
+};
+
+export const flagField: Field<boolean> = (value) => {
+  if (value === true || value === "true" || value === "1") return { value: true };
+  if (value === false || value === "false" || value === "0") return { value: false };
+  return { error: "Expected true or false" };
+};
+
+/** Makes a field optional: missing/empty input yields undefined */
+export function optional<T>(field: Field<T>): Field<T | undefined> {
+  return (value) =>
+    value === undefined || value === null || value === "" ? { value: undefined } : field(value);
+}
+
+/** Builds an object schema from per-key field checks */
+export function object<T extends Record<string, unknown>>(
+  shape: { [K in keyof T]: Field<T[K]> }
+): Schema<T> {
+  return (input) => {
+    const src = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+    const data = {} as T;
+    const errors: FieldErrors = {};
+
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const result = shape[key](src[key]);
+      if ("error" in result) errors[key] = result.error;
+      else data[key] = result.value;
+    }
+
+    return Object.keys(errors).length ? { success: false, errors } : { success: true, data };
+  };
+}
+
+/** First message of a failed parse, for toast-style display */
+export function firstError(errors: FieldErrors): string {
+  return Object.values(errors)[0] ?? "Invalid request";
+}
+
+/* ---------------- route schemas ---------------- */
+export const waitlistSchema = object<{ email: string; name: string }>({
+  email: emailField,
+  name: nameField,
+});
+
+export const verifySchema = object<{ mobile: string }>({
+  mobile: msisdnField(),
+});
+
+export type PayRequest = {
+  amount: number;
+  mobile: string;
+  handle: string;
+  accountName: string;
+  email?: string;
+  provider?: string;
+  /** Present when paying through a signed (invoice) paylink */
+  terms?: SignedTerms;
+};
+
+const payShape = {
+  handle: handleField,
+  accountName: nameField,
+  email: optional(emailField),
+  terms: optional(signedTermsField),
+};
+
+/**
+ * The client builds this with the recipient's country (and currency, when the
+ * profile sets one) so local numbers parse and bounds match. The server uses
+ * `paySchema` (any supported plan, any positive amount) and then checks the
+ * payer's country and the amount against the recipient's profile.
+ */
+export function paySchemaFor(country?: string | null, currency?: string | null) {
+  return object<PayRequest>({
+    amount: amountField(currency ?? currencyForCountry(country)),
+    mobile: msisdnField(country),
+    provider: optional(providerField(country)),
+    ...payShape,
+  });
+}
+
+export const paySchema = object<PayRequest>({
+  amount: anyAmountField,
+  mobile: msisdnField(),
+  provider: optional(providerField()),
+  ...payShape,
+});
+
+export const loginSchema = object<{ handle: string; next?: string }>({
+  handle: handleField,
+  next: optional(nextPathField),
+});
+
+/** Terms a signed-in recipient asks /api/paylinks to sign; amount is re-checked against their currency */
+export const mintPaylinkSchema = object<PaylinkTerms>({
+  amount: optional(anyAmountField),
+  invoice: optional(invoiceField),
+  memo: optional(memoField),
+  expiresAt: optional(expiresAtField),
+  singleUse: optional(flagField),
+});
+
+export const profileRevalidateSchema = object<{ handle: string }>({
+  handle: handleField,
+});
+
+export const receiptRequestSchema = object<{ transactionId: string }>({
+  transactionId: transactionIdField,
+});
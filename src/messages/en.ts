@@ -0,0 +1,157 @@
+/**
+ * English copy for the paylink UI; the source of truth for message keys.
+ * Placeholders use {name} and are filled by `translate` in ~/lib/i18n.
+ */
+const en = {
+  /* hero */
+  "hero.availableIn": "available in {country}",
+  "hero.avatar": "{name} avatar",
+  "hero.unknownUser": "Unknown",
+  "hero.profileUnavailable": "Profile not available",
+  "hero.verifiedAccount": "Verified account",
+  "hero.verified": "Verified",
+  "hero.copyPaylink": "Copy paylink",
+  "hero.copied": "Copied",
+  "hero.paylinkCopied": "Paylink copied",
+  "hero.paylinkCopiedToClipboard": "Paylink copied to clipboard",
+  "hero.payingSecurely":
+    "You are paying {name} securely. Payments are protected and your details stay private.",
+  "hero.suspended": "This paylink is not accepting payments right now.",
+  "hero.notSetUp": "This paylink isn’t fully set up yet.",
+  "hero.paying": "Paying {name}",
+  "hero.confirmDetails": "Confirm the details below to send your secure payment.",
+  "hero.enterDetails": "Enter the amount and details below to send a secure payment.",
+  "hero.askRecipient": "Ask the recipient to finish setting up their Guto profile.",
+  "hero.paymentComplete": "Payment complete. Share or save your receipt below.",
+  "hero.secure": "256-bit SSL • Secure",
+  "hero.paymentsDisabled": "This profile doesn’t have a name yet, so payments are disabled for now.",
+  "hero.receiptTitle": "Payment receipt",
+  "hero.receiptPreview": "Receipt preview",
+  "hero.buildingReceipt": "Building receipt…",
+  "hero.shareImage": "Share image",
+  "hero.downloadPng": "Download PNG",
+  "hero.downloadPdf": "Download PDF",
+  "hero.verifiableReceipt": "Verifiable receipt",
+  "hero.ref": "Ref: {ref}",
+  "hero.shareTitle": "Payment Receipt",
+  "hero.shareText": "Payment completed on Guto.",
+  "hero.invoice": "Invoice {number}",
+  "hero.payBefore": "Pay before {date}",
+  "hero.singleUse": "One-time payment link",
+  "hero.linkExpired": "This payment link has expired. Ask {name} for a new one.",
+  "hero.linkUsed": "This payment link has already been paid.",
+  "hero.linkInvalid": "This payment link is invalid or was changed. Ask {name} for a new one.",
+  "hero.qrSvg": "QR code (SVG)",
+  "hero.qrPng": "QR code (PNG)",
+  "hero.printPoster": "Print poster",
+  "hero.dashboard": "Your payments",
+
+  /* form */
+  "form.amountLabel": "Amount ({currency})",
+  "form.enterAmount": "Enter amount",
+  "form.continue": "Continue",
+  "form.checking": "Checking...",
+  "form.phoneLabel": "Phone Number",
+  "form.accountName": "Account Name",
+  "form.emailLabel": "Email for receipt (optional)",
+  "form.pay": "Pay",
+  "form.waiting": "Waiting…",
+  "form.sending": "Sending...",
+  "form.loading": "Loading spinner",
+  "form.amountFixed": "Amount: {amount} (fixed)",
+  "form.amountRange": "Enter an amount between {min} and {max}.",
+  "form.amountSummary": "Amount: {amount}",
+  "form.status": "Status: {status}",
+  "form.statusWaiting": "waiting for approval",
+  "form.network": "Network",
+  "form.chooseOption": "Choose…",
+  "form.detected": "{name} (detected)",
+  "form.feeAmount": "Amount",
+  "form.feeEstimate": "{provider} fee (est.)",
+  "form.feeTotal": "Total",
+  "form.resumed":
+    "You have a payment in progress. Approve the prompt on your phone; this page updates automatically.",
+  "form.chooseNetwork": "Choose your mobile money network",
+  "form.foundName": "Found account name: {name}",
+  "form.noName": "We couldn't fetch a name",
+  "form.noNameHint": "You can type it manually.",
+  "form.paymentConfirmed": "Payment confirmed!",
+  "form.paymentFailed": "Payment failed. If you were charged, please contact support.",
+  "form.timeout": "We didn’t receive a confirmation in time. You can retry.",
+  "form.missingRecipient": "Missing recipient. Please try again later.",
+  "form.notAccepted": "Request not accepted by gateway.",
+  "form.sendFailed": "Send failed: {message}",
+  "form.riskCooldown": "For your safety this payment is on hold. Please try again in {minutes} min.",
+  "form.requestSent": "Request sent. Waiting for mobile money confirmation…",
+  "form.approvePrompt": "Approve the prompt on your phone to complete the payment.",
+  "form.initiateFailed": "Failed to initiate payment. Please try again.",
+  "form.error.amount": "Enter a valid amount between {min} and {max}",
+  "form.error.mobile": "Please enter a valid mobile number for {country} (e.g. {example})",
+  "form.error.accountName": "Please enter the account name",
+  "form.error.email": "Please enter a valid email address",
+  "form.error.provider": "Choose a supported mobile money network",
+
+  /* faq */
+  "faq.title": "Frequently Asked Questions",
+  "faq.subtitle": "Quick answers about sending and receiving payments with Guto Paylink.",
+  "faq.create.q": "How do I create a Paylink?",
+  "faq.create.a":
+    "It only takes a few minutes! Visit {link} to download the app and sign up. Once your profile is created, you’ll get a unique Paylink handle (like {example}) that you can share instantly to start receiving payments.",
+  "faq.what.q": "What is a Guto Paylink?",
+  "faq.what.a":
+    "A Guto Paylink is a simple page where anyone can securely send you money. Share your handle (for example {example}) and a payer can complete payment in a few steps.",
+  "faq.where.q": "Where is Guto available?",
+  "faq.where.a":
+    "Guto Paylink is currently available in Uganda. We’ll share updates as we expand to additional regions.",
+  "faq.fees.q": "Are there fees to send or receive payments?",
+  "faq.fees.a":
+    "Guto does not charge any fees for sending payments. However, your mobile money network may apply their ordinary charges according to their own fee structure. Any applicable network fees will be shown to you before you confirm a transaction.",
+  "faq.speed.q": "How fast do payments arrive?",
+  "faq.speed.a":
+    "Most payments complete within seconds. In some cases, network delays or verification checks can add a bit more time. You’ll get a confirmation once it’s sent.",
+  "faq.security.q": "Is it secure?",
+  "faq.security.a":
+    "Yes. Connections are protected with TLS, sensitive details are never exposed to the recipient, and we don’t store your mobile money PIN. You’ll also see a verified badge when a profile has been confirmed.",
+
+  /* poster */
+  "poster.print": "Print",
+  "poster.scanToPay": "Scan to pay",
+  "poster.amount": "Amount: {amount}",
+  "poster.orVisit": "or open {url}",
+
+  /* metadata & OG image */
+  "meta.title": "Pay {name} (@{handle})",
+  "meta.titleAmount": "Pay {name} • {amount}",
+  "meta.description": "Send secure payments to {name} on Guto Paylink.",
+  "meta.descriptionAmount": "Send {amount} securely to {name} on Guto Paylink.",
+  "meta.invoiceTitle": "Invoice {number} • Pay {name}",
+  "og.pay": "Pay @{handle}",
+  "og.payName": "Pay {name}",
+  "og.invoice": "Invoice {number}",
+
+  /* paylink not found */
+  "notFound.title": "Paylink not found",
+  "notFound.heading": "We couldn’t find that paylink",
+  "notFound.hint": "Check the handle for typos, or search for the person you want to pay.",
+  "notFound.back": "Back to Guto",
+  "notFound.searchLabel": "Paylink handle",
+  "notFound.searchSubmit": "Find",
+  "notFound.searchInvalid": "Handles use letters, digits and . _ -",
+
+  /* receipt PNG & PDF */
+  "receipt.title": "Payment Receipt",
+  "receipt.amount": "Amount",
+  "receipt.recipient": "Recipient",
+  "receipt.from": "From",
+  "receipt.invoice": "Invoice",
+  "receipt.memo": "Memo",
+  "receipt.paidAt": "Paid at",
+  "receipt.reference": "Reference",
+  "receipt.providerRef": "Provider Ref",
+  "receipt.gatewayId": "Gateway ID",
+  "receipt.paylink": "Paylink",
+  "receipt.verification": "Verification code",
+  "receipt.poweredBy": "Powered by",
+};
+
+export default en;
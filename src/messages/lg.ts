@@ -0,0 +1,153 @@
+import type { Messages } from "~/lib/i18n";
+
+/** Luganda copy; keys and placeholders mirror ./en */
+const lg: Messages = {
+  "hero.availableIn": "kiriwo mu {country}",
+  "hero.avatar": "ekifaananyi kya {name}",
+  "hero.unknownUser": "Tamanyiddwa",
+  "hero.profileUnavailable": "Ebikwata ku muntu ono tebiriiwo",
+  "hero.verifiedAccount": "Akawunti ekakasiddwa",
+  "hero.verified": "Akakasiddwa",
+  "hero.copyPaylink": "Koppa paylink",
+  "hero.copied": "Ekoppeddwa",
+  "hero.paylinkCopied": "Paylink ekoppeddwa",
+  "hero.paylinkCopiedToClipboard": "Paylink ekoppeddwa",
+  "hero.payingSecurely":
+    "Osasula {name} mu ngeri ey’obukuumi. Ensimbi zo zikuumibwa era ebikukwatako bisigala bya kyama.",
+  "hero.suspended": "Paylink eno tekkiriza kusasulwa kati.",
+  "hero.notSetUp": "Paylink eno tennategekebwa bulungi.",
+  "hero.paying": "Osasula {name}",
+  "hero.confirmDetails": "Kakasa ebiri wansi osindike ensimbi zo mu bukuumi.",
+  "hero.enterDetails": "Yingiza omuwendo n’ebirala wansi osindike ensimbi mu bukuumi.",
+  "hero.askRecipient": "Saba agenda okufuna ensimbi amalirize okutegeka akawunti ye eya Guto.",
+  "hero.paymentComplete": "Okusasula kuwedde. Gabana oba tereka lisiiti yo wansi.",
+  "hero.secure": "256-bit SSL • Obukuumi",
+  "hero.paymentsDisabled":
+    "Akawunti eno terina linnya, n’olwekyo okusasula kuyimiriziddwa kaakano.",
+  "hero.receiptTitle": "Lisiiti y’okusasula",
+  "hero.receiptPreview": "Okulaba lisiiti",
+  "hero.buildingReceipt": "Tutegeka lisiiti…",
+  "hero.shareImage": "Gabana ekifaananyi",
+  "hero.downloadPng": "Wanula PNG",
+  "hero.downloadPdf": "Wanula PDF",
+  "hero.verifiableReceipt": "Lisiiti ekakasibwa",
+  "hero.ref": "Ref: {ref}",
+  "hero.shareTitle": "Lisiiti y’okusasula",
+  "hero.shareText": "Okusasula kuwedde ku Guto.",
+  "hero.invoice": "Invoyisi {number}",
+  "hero.payBefore": "Sasula nga {date} tannatuuka",
+  "hero.singleUse": "Paylink ey’okusasula omulundi gumu",
+  "hero.linkExpired": "Paylink eno eweddeko. Saba {name} akuwe endala.",
+  "hero.linkUsed": "Paylink eno yasasulwa dda.",
+  "hero.linkInvalid": "Paylink eno temanyiddwa oba yakyusibwa. Saba {name} akuwe endala.",
+  "hero.qrSvg": "QR code (SVG)",
+  "hero.qrPng": "QR code (PNG)",
+  "hero.printPoster": "Kuba ekipande",
+  "hero.dashboard": "Ensasula zo",
+
+  "form.amountLabel": "Omuwendo ({currency})",
+  "form.enterAmount": "Yingiza omuwendo",
+  "form.continue": "Genda mu maaso",
+  "form.checking": "Tukebera...",
+  "form.phoneLabel": "Ennamba y’essimu",
+  "form.accountName": "Erinnya ku akawunti",
+  "form.emailLabel": "Email ya lisiiti (si kya buwaze)",
+  "form.pay": "Sasula",
+  "form.waiting": "Tulinze…",
+  "form.sending": "Tusindika...",
+  "form.loading": "Kitegekebwa",
+  "form.amountFixed": "Omuwendo: {amount} (tegukyusibwa)",
+  "form.amountRange": "Yingiza omuwendo wakati wa {min} ne {max}.",
+  "form.amountSummary": "Omuwendo: {amount}",
+  "form.status": "Embeera: {status}",
+  "form.statusWaiting": "tulinze okukakasa",
+  "form.network": "Omukutu",
+  "form.chooseOption": "Londa…",
+  "form.detected": "{name} (ezuuliddwa)",
+  "form.feeAmount": "Omuwendo",
+  "form.feeEstimate": "Ssente za {provider} (kigeraageranyo)",
+  "form.feeTotal": "Awamu",
+  "form.resumed":
+    "Olina okusasula okukyagenda mu maaso. Kakasa ku ssimu yo; omuko guno gujja kwekyusa gwokka.",
+  "form.chooseNetwork": "Londa omukutu gwo ogwa mobile money",
+  "form.foundName": "Erinnya ku akawunti lizuuliddwa: {name}",
+  "form.noName": "Tetusobodde kufuna linnya",
+  "form.noNameHint": "Osobola okuliwandiika wekka.",
+  "form.paymentConfirmed": "Okusasula kukakasiddwa!",
+  "form.paymentFailed": "Okusasula kulemye. Bw’oba otoolebwako ensimbi, tuukirira abatuyambako.",
+  "form.timeout": "Tetufunye kukakasa mu budde. Osobola okuddamu.",
+  "form.missingRecipient": "Agenda okufuna ensimbi tamanyiddwa. Ddamu oluvannyuma.",
+  "form.notAccepted": "Omukutu gw’okusasula tegukkirizza kusaba.",
+  "form.sendFailed": "Okusindika kulemye: {message}",
+  "form.riskCooldown": "Olw’obukuumi bwo okusasula kuno kuyimiriddwamu. Ddamu ogezeeko oluvannyuma lwa dakiika {minutes}.",
+  "form.requestSent": "Okusaba kusindikiddwa. Tulinze okukakasa kwa mobile money…",
+  "form.approvePrompt": "Kakasa ku ssimu yo okumaliriza okusasula.",
+  "form.initiateFailed": "Tetusobodde kutandika kusasula. Ddamu.",
+  "form.error.amount": "Yingiza omuwendo omutuufu wakati wa {min} ne {max}",
+  "form.error.mobile": "Yingiza ennamba y’essimu entuufu eya {country} (okugeza {example})",
+  "form.error.accountName": "Yingiza erinnya ku akawunti",
+  "form.error.email": "Yingiza email entuufu",
+  "form.error.provider": "Londa omukutu gwa mobile money ogukkirizibwa",
+
+  "faq.title": "Ebibuuzo Ebibuuzibwa Ennyo",
+  "faq.subtitle": "Eby’okuddamu eby’amangu ku kusindika n’okufuna ensimbi ne Guto Paylink.",
+  "faq.create.q": "Nkola ntya Paylink?",
+  "faq.create.a":
+    "Kitwala eddakiika ntono! Genda ku {link} owanule app weewandiise. Akawunti yo bw’emala okukolebwa, ojja kufuna erinnya lya Paylink ery’enjawulo (nga {example}) ly’osobola okugabana amangu ddala otandike okufuna ensimbi.",
+  "faq.what.q": "Guto Paylink kye ki?",
+  "faq.what.a":
+    "Guto Paylink muko omwangu omuntu yenna kw’asobola okukusindikira ensimbi mu bukuumi. Gabana erinnya lyo (okugeza {example}) omusasuzi amalirize okusasula mu mitendera mitono.",
+  "faq.where.q": "Guto esangibwa wa?",
+  "faq.where.a":
+    "Guto Paylink kaakano esangibwa mu Uganda. Tujja kubategeeza nga tugaziya mu bitundu ebirala.",
+  "faq.fees.q": "Waliwo ssente z’osasula okusindika oba okufuna ensimbi?",
+  "faq.fees.a":
+    "Guto tesasuza ssente zonna ku kusindika. Naye omukutu gwo ogwa mobile money guyinza okusasuza ssente zaagwo ez’olubeerera. Ssente zonna ez’omukutu zijja kukulagibwa nga tonnakakasa kusasula.",
+  "faq.speed.q": "Ensimbi zituuka mangu kwenkana wa?",
+  "faq.speed.a":
+    "Okusasula okusinga kuggwa mu sikonda ntono. Oluusi okulwawo kw’omukutu oba okukebera kuyinza okwongerako akaseera. Ojja kufuna okukakasa ng’ensimbi zisindikiddwa.",
+  "faq.security.q": "Kirimu obukuumi?",
+  "faq.security.a":
+    "Yee. Enkolagana zikuumibwa TLS, ebikukwatako ebikulu tebiragibwa agenda okufuna, era tetutereka PIN yo eya mobile money. Ojja kulaba n’akabonero akakakasa nga akawunti ekakasiddwa.",
+
+  "poster.print": "Kuba",
+  "poster.scanToPay": "Sika okusasula",
+  "poster.amount": "Omuwendo: {amount}",
+  "poster.orVisit": "oba ggulawo {url}",
+
+  "meta.title": "Sasula {name} (@{handle})",
+  "meta.titleAmount": "Sasula {name} • {amount}",
+  "meta.description": "Sindikira {name} ensimbi mu bukuumi ku Guto Paylink.",
+  "meta.descriptionAmount": "Sindika {amount} eri {name} mu bukuumi ku Guto Paylink.",
+  "meta.invoiceTitle": "Invoyisi {number} • Sasula {name}",
+
+  "og.pay": "Sasula @{handle}",
+  "og.payName": "Sasula {name}",
+  "og.invoice": "Invoyisi {number}",
+
+  /* paylink not found */
+  "notFound.title": "Paylink tezuuliddwa",
+  "notFound.heading": "Tetusobodde kuzuula paylink eyo",
+  "notFound.hint": "Kebera nti erinnya liwandiikiddwa bulungi, oba noonya omuntu gw’oyagala okusasula.",
+  "notFound.back": "Ddayo ku Guto",
+  "notFound.searchLabel": "Erinnya lya paylink",
+  "notFound.searchSubmit": "Noonya",
+  "notFound.searchInvalid": "Amannya gakozesa ennukuta, ennamba ne . _ -",
+
+  /* receipt PNG & PDF */
+  "receipt.title": "Lisiiti y’okusasula",
+  "receipt.amount": "Omuwendo",
+  "receipt.recipient": "Asasulwa",
+  "receipt.from": "Okuva",
+  "receipt.invoice": "Invoyisi",
+  "receipt.memo": "Obubaka",
+  "receipt.paidAt": "Yasasulwa",
+  "receipt.reference": "Namba y’okujuliza",
+  "receipt.providerRef": "Namba ya kampuni y’essimu",
+  "receipt.gatewayId": "Namba ya gateway",
+  "receipt.paylink": "Paylink",
+  "receipt.verification": "Namba y’okukakasa",
+  "receipt.poweredBy": "Ekoleddwa",
+};
+
+export default lg;
@@ -0,0 +1,154 @@
+import type { Messages } from "~/lib/i18n";
+
+/** Swahili copy; keys and placeholders mirror ./en */
+const sw: Messages = {
+  "hero.availableIn": "inapatikana {country}",
+  "hero.avatar": "picha ya {name}",
+  "hero.unknownUser": "Haijulikani",
+  "hero.profileUnavailable": "Wasifu haupatikani",
+  "hero.verifiedAccount": "Akaunti iliyothibitishwa",
+  "hero.verified": "Imethibitishwa",
+  "hero.copyPaylink": "Nakili paylink",
+  "hero.copied": "Imenakiliwa",
+  "hero.paylinkCopied": "Paylink imenakiliwa",
+  "hero.paylinkCopiedToClipboard": "Paylink imenakiliwa kwenye ubao wa kunakili",
+  "hero.payingSecurely":
+    "Unamlipa {name} kwa usalama. Malipo yanalindwa na taarifa zako zinabaki za siri.",
+  "hero.suspended": "Paylink hii haipokei malipo kwa sasa.",
+  "hero.notSetUp": "Paylink hii bado haijawekwa kikamilifu.",
+  "hero.paying": "Unamlipa {name}",
+  "hero.confirmDetails": "Thibitisha maelezo hapa chini ili kutuma malipo yako kwa usalama.",
+  "hero.enterDetails": "Weka kiasi na maelezo hapa chini ili kutuma malipo kwa usalama.",
+  "hero.askRecipient": "Mwombe mpokeaji akamilishe kuweka wasifu wake wa Guto.",
+  "hero.paymentComplete": "Malipo yamekamilika. Shiriki au hifadhi risiti yako hapa chini.",
+  "hero.secure": "256-bit SSL • Salama",
+  "hero.paymentsDisabled": "Wasifu huu bado hauna jina, kwa hivyo malipo yamezimwa kwa sasa.",
+  "hero.receiptTitle": "Risiti ya malipo",
+  "hero.receiptPreview": "Hakiki ya risiti",
+  "hero.buildingReceipt": "Inaandaa risiti…",
+  "hero.shareImage": "Shiriki picha",
+  "hero.downloadPng": "Pakua PNG",
+  "hero.downloadPdf": "Pakua PDF",
+  "hero.verifiableReceipt": "Risiti inayothibitishwa",
+  "hero.ref": "Kumb: {ref}",
+  "hero.shareTitle": "Risiti ya Malipo",
+  "hero.shareText": "Malipo yamekamilika kupitia Guto.",
+  "hero.invoice": "Ankara {number}",
+  "hero.payBefore": "Lipa kabla ya {date}",
+  "hero.singleUse": "Kiungo cha malipo cha mara moja",
+  "hero.linkExpired": "Kiungo hiki cha malipo kimeisha muda. Mwombe {name} akupe kipya.",
+  "hero.linkUsed": "Kiungo hiki cha malipo kimeshalipwa.",
+  "hero.linkInvalid":
+    "Kiungo hiki cha malipo si sahihi au kimebadilishwa. Mwombe {name} akupe kipya.",
+  "hero.qrSvg": "Msimbo wa QR (SVG)",
+  "hero.qrPng": "Msimbo wa QR (PNG)",
+  "hero.printPoster": "Chapisha bango",
+  "hero.dashboard": "Malipo yako",
+
+  "form.amountLabel": "Kiasi ({currency})",
+  "form.enterAmount": "Weka kiasi",
+  "form.continue": "Endelea",
+  "form.checking": "Inakagua...",
+  "form.phoneLabel": "Namba ya Simu",
+  "form.accountName": "Jina la Akaunti",
+  "form.emailLabel": "Barua pepe ya risiti (si lazima)",
+  "form.pay": "Lipa",
+  "form.waiting": "Inasubiri…",
+  "form.sending": "Inatuma...",
+  "form.loading": "Inapakia",
+  "form.amountFixed": "Kiasi: {amount} (kisichobadilika)",
+  "form.amountRange": "Weka kiasi kati ya {min} na {max}.",
+  "form.amountSummary": "Kiasi: {amount}",
+  "form.status": "Hali: {status}",
+  "form.statusWaiting": "inasubiri idhini",
+  "form.network": "Mtandao",
+  "form.chooseOption": "Chagua…",
+  "form.detected": "{name} (imetambuliwa)",
+  "form.feeAmount": "Kiasi",
+  "form.feeEstimate": "Ada ya {provider} (makadirio)",
+  "form.feeTotal": "Jumla",
+  "form.resumed":
+    "Una malipo yanayoendelea. Idhinisha ombi kwenye simu yako; ukurasa huu utajisasisha wenyewe.",
+  "form.chooseNetwork": "Chagua mtandao wako wa pesa za simu",
+  "form.foundName": "Jina la akaunti limepatikana: {name}",
+  "form.noName": "Hatukuweza kupata jina",
+  "form.noNameHint": "Unaweza kuliandika mwenyewe.",
+  "form.paymentConfirmed": "Malipo yamethibitishwa!",
+  "form.paymentFailed":
+    "Malipo yameshindikana. Ikiwa umekatwa pesa, tafadhali wasiliana na huduma kwa wateja.",
+  "form.timeout": "Hatukupokea uthibitisho kwa wakati. Unaweza kujaribu tena.",
+  "form.missingRecipient": "Mpokeaji hajulikani. Tafadhali jaribu tena baadaye.",
+  "form.notAccepted": "Ombi halikukubaliwa na lango la malipo.",
+  "form.sendFailed": "Imeshindwa kutuma: {message}",
+  "form.riskCooldown": "Kwa usalama wako malipo haya yamesitishwa. Tafadhali jaribu tena baada ya dakika {minutes}.",
+  "form.requestSent": "Ombi limetumwa. Inasubiri uthibitisho wa pesa za simu…",
+  "form.approvePrompt": "Idhinisha ombi kwenye simu yako ili kukamilisha malipo.",
+  "form.initiateFailed": "Imeshindwa kuanzisha malipo. Tafadhali jaribu tena.",
+  "form.error.amount": "Weka kiasi halali kati ya {min} na {max}",
+  "form.error.mobile": "Tafadhali weka namba halali ya simu ya {country} (mfano {example})",
+  "form.error.accountName": "Tafadhali weka jina la akaunti",
+  "form.error.email": "Tafadhali weka barua pepe halali",
+  "form.error.provider": "Chagua mtandao wa pesa za simu unaotumika",
+
+  "faq.title": "Maswali Yanayoulizwa Mara kwa Mara",
+  "faq.subtitle": "Majibu ya haraka kuhusu kutuma na kupokea malipo kwa Guto Paylink.",
+  "faq.create.q": "Ninawezaje kuunda Paylink?",
+  "faq.create.a":
+    "Inachukua dakika chache tu! Tembelea {link} kupakua programu na kujisajili. Wasifu wako ukishaundwa, utapata jina la kipekee la Paylink (kama {example}) unaloweza kushiriki mara moja ili kuanza kupokea malipo.",
+  "faq.what.q": "Guto Paylink ni nini?",
+  "faq.what.a":
+    "Guto Paylink ni ukurasa rahisi ambapo mtu yeyote anaweza kukutumia pesa kwa usalama. Shiriki jina lako (kwa mfano {example}) na mlipaji anaweza kukamilisha malipo kwa hatua chache.",
+  "faq.where.q": "Guto inapatikana wapi?",
+  "faq.where.a":
+    "Guto Paylink kwa sasa inapatikana Uganda. Tutatoa taarifa tunapopanua huduma kwenda maeneo mengine.",
+  "faq.fees.q": "Je, kuna ada za kutuma au kupokea malipo?",
+  "faq.fees.a":
+    "Guto haitozi ada yoyote kwa kutuma malipo. Hata hivyo, mtandao wako wa pesa za simu unaweza kutoza ada zake za kawaida kulingana na viwango vyake. Ada zozote za mtandao zitaonyeshwa kwako kabla ya kuthibitisha muamala.",
+  "faq.speed.q": "Malipo hufika kwa haraka kiasi gani?",
+  "faq.speed.a":
+    "Malipo mengi hukamilika ndani ya sekunde chache. Wakati mwingine ucheleweshaji wa mtandao au ukaguzi wa uthibitisho unaweza kuongeza muda kidogo. Utapokea uthibitisho malipo yakishatumwa.",
+  "faq.security.q": "Je, ni salama?",
+  "faq.security.a":
+    "Ndiyo. Miunganisho inalindwa kwa TLS, taarifa nyeti hazionyeshwi kwa mpokeaji, na hatuhifadhi PIN yako ya pesa za simu. Pia utaona alama ya uthibitisho wasifu unapothibitishwa.",
+
+  "poster.print": "Chapisha",
+  "poster.scanToPay": "Changanua ili ulipe",
+  "poster.amount": "Kiasi: {amount}",
+  "poster.orVisit": "au fungua {url}",
+
+  "meta.title": "Mlipe {name} (@{handle})",
+  "meta.titleAmount": "Mlipe {name} • {amount}",
+  "meta.description": "Tuma malipo salama kwa {name} kupitia Guto Paylink.",
+  "meta.descriptionAmount": "Tuma {amount} kwa usalama kwa {name} kupitia Guto Paylink.",
+  "meta.invoiceTitle": "Ankara {number} • Mlipe {name}",
+
+  "og.pay": "Mlipe @{handle}",
+  "og.payName": "Mlipe {name}",
+  "og.invoice": "Ankara {number}",
+
+  /* paylink not found */
+  "notFound.title": "Paylink haijapatikana",
+  "notFound.heading": "Hatukuweza kupata paylink hiyo",
+  "notFound.hint": "Kagua jina kama lina makosa, au tafuta mtu unayetaka kumlipa.",
+  "notFound.back": "Rudi Guto",
+  "notFound.searchLabel": "Jina la paylink",
+  "notFound.searchSubmit": "Tafuta",
+  "notFound.searchInvalid": "Majina hutumia herufi, tarakimu na . _ -",
+
+  /* receipt PNG & PDF */
+  "receipt.title": "Risiti ya Malipo",
+  "receipt.amount": "Kiasi",
+  "receipt.recipient": "Mpokeaji",
+  "receipt.from": "Kutoka",
+  "receipt.invoice": "Ankara",
+  "receipt.memo": "Maelezo",
+  "receipt.paidAt": "Ililipwa",
+  "receipt.reference": "Kumbukumbu",
+  "receipt.providerRef": "Kumbukumbu ya mtoa huduma",
+  "receipt.gatewayId": "Kitambulisho cha lango",
+  "receipt.paylink": "Paylink",
+  "receipt.verification": "Nambari ya uthibitisho",
+  "receipt.poweredBy": "Inaendeshwa na",
+};
+
+export default sw;
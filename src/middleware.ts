@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { canonicalRedirectPath } from "~/lib/handle";
+import { checkRateLimits, rateLimitHeaders } from "~/lib/ratelimit";
+
+/**
+ * API routes: the rate-limit policies from lib/ratelimit.ts, with RateLimit-*
+ * headers on every guarded response.
+ *
+ * Pages: permanent redirects from non-canonical paylink paths (/%40Shop,
+ * /shop, /Shop/poster) to /@shop. Renamed handles need a profile lookup, so
+ * the page handles those.
+ */
+export async function middleware(request: NextRequest) {
+  if (request.nextUrl.pathname.startsWith("/api/")) return rateLimit(request);
+
+  const canonical = canonicalRedirectPath(request.nextUrl.pathname);
+  if (!canonical) return NextResponse.next();
+
+  const url = request.nextUrl.clone();
+  url.pathname = canonical;
+  return NextResponse.redirect(url, 308);
+}
+
+async function rateLimit(request: NextRequest) {
+  // An unavailable limiter must not take the API down with it
+  const result = await checkRateLimits(request).catch((err) => {
+    console.error("❗ rate limit error:", err);
+    return null;
+  });
+  if (!result) return NextResponse.next();
+
+  const headers = rateLimitHeaders(result);
+  if (!result.success) {
+    return NextResponse.json({ error: "Too many requests!" }, { status: 429, headers });
+  }
+  const response = NextResponse.next();
+  for (const [key, value] of Object.entries(headers)) response.headers.set(key, value);
+  return response;
+}
+
+export const config = {
+  // public/ assets (/mtn.png, /Logo.png) skip middleware entirely
+  matcher: ["/((?!_next/|.*\\.(?:png|jpe?g|svg|ico|gif|webp|txt|xml|webmanifest)$).*)"],
+};
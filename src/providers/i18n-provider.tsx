@@ -0,0 +1,62 @@
+"use client";
+
+import { Fragment, type ReactNode, createContext, useContext, useEffect, useMemo } from "react";
+
+import {
+	DEFAULT_LOCALE,
+	type Locale,
+	type MessageKey,
+	type TranslateVars,
+	type Translator,
+	createTranslator,
+	intlLocale,
+} from "~/lib/i18n";
+
+type I18nContextValue = {
+	locale: Locale;
+	/** BCP 47 tag to hand to Intl / formatMoney */
+	intl: string;
+	t: Translator;
+	/** Like `t`, but {placeholders} named in `parts` are replaced by React nodes */
+	rich: (key: MessageKey, parts: Record<string, ReactNode>, vars?: TranslateVars) => ReactNode;
+};
+
+function contextValue(locale: Locale, country?: string): I18nContextValue {
+	const t = createTranslator(locale);
+	return {
+		locale,
+		intl: intlLocale(locale, country),
+		t,
+		rich: (key, parts, vars) =>
+			t(key, vars)
+				.split(/\{(\w+)\}/)
+				.map((chunk, i) => (
+					<Fragment key={i}>{i % 2 === 1 ? (parts[chunk] ?? `{${chunk}}`) : chunk}</Fragment>
+				)),
+	};
+}
+
+// English when rendered outside a provider
+const I18nContext = createContext<I18nContextValue>(contextValue(DEFAULT_LOCALE));
+
+interface I18nProviderProps {
+	locale: Locale;
+	/** Recipient's country, for number/date formatting */
+	country?: string;
+	children: ReactNode;
+}
+
+export function I18nProvider({ locale, country, children }: I18nProviderProps) {
+	const value = useMemo(() => contextValue(locale, country), [locale, country]);
+
+	// The root layout cannot see ?lang=, so keep <html lang> in step here
+	useEffect(() => {
+		document.documentElement.lang = locale;
+	}, [locale]);
+
+	return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+	return useContext(I18nContext);
+}